@@ -0,0 +1,43 @@
+import { defineConfig } from "./benchmarks/config";
+
+// Benchmark settings. Environment variables (see .env.example) override these,
+// and `--set key=value` on the command line overrides both.
+export default defineConfig({
+    mariadb: {
+        host: "localhost",
+        port: 3306,
+        user: "root",
+        database: "benchmark_db",
+        // tls: { enabled: true, ca: "certs/ca.pem" },
+    },
+    redis: {
+        url: "redis://localhost:6379",
+    },
+    memcached: {
+        location: "localhost:11211",
+    },
+    sqlite: {
+        file: "bench_bun.db",
+        compareFile: "bench_bun_compare.db",
+    },
+    // Applies to every suite; per-suite values below take precedence
+    run: {},
+    // Keyspace, key access distribution and payload sizes; suites can override it with `workload: {...}`
+    workload: {
+        keyspace: 1000,
+        distribution: "uniform",
+        valueSize: 16,
+        // valueSize: { min: 100, max: 10_000 },
+        rowWidth: 0,
+    },
+    // Libraries whose server doesn't answer within the timeout are skipped
+    probe: { timeout: 2_000, retries: 1 },
+    // baselineLibrary picks the library speedups are relative to, e.g. { enabled: true, baselineLibrary: "redis" }
+    suites: {
+        sqlite: { enabled: true },
+        mariadb: { enabled: true },
+        redis: { enabled: true },
+        compare: { enabled: false },
+        ycsb: { enabled: false },
+    },
+});
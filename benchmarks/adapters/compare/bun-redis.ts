@@ -0,0 +1,40 @@
+import { defineAdapter } from "../../suite";
+import { connectBunRedis } from "../redis/shared";
+import { seedBatches } from "../shared";
+
+export default defineAdapter({
+    library: "Bun Redis",
+    backend: "redis",
+
+    async setup() {
+        const client = await connectBunRedis();
+        // Clean data for testing
+        await client.send("FLUSHDB", []);
+        return client;
+    },
+
+    teardown(client) {
+        client.close();
+    },
+
+    operations: {
+        WRITE: {
+            async run(client, workload) {
+                const key = `key_${workload.newKey()}`;
+                const value = workload.value();
+                await client.set(key, value);
+            },
+        },
+
+        READ: {
+            async beforeAll(client, workload) {
+                for (const ids of seedBatches(workload.spec)) {
+                    await Promise.all(ids.map((id) => client.set(`key_${id}`, workload.value())));
+                }
+            },
+            async run(client, workload) {
+                await client.get(`key_${workload.key()}`);
+            },
+        },
+    },
+});
@@ -0,0 +1,80 @@
+import { Database as BunDatabase } from "bun:sqlite";
+import { getConfig } from "../../config";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { removeDatabase } from "../shared";
+import {
+    createStatementRunner,
+    STATEMENT_STRATEGIES,
+    type StatementRunner,
+    type StatementStrategy,
+} from "../sqlite/statements";
+
+interface Context {
+    db: BunDatabase;
+    statements: StatementRunner;
+}
+
+/**
+ * Bun SQLite key-value table under one statement strategy
+ */
+function bunSqliteAdapter(strategy: StatementStrategy, suffix: string) {
+    return defineAdapter<Context>({
+        library: `Bun SQLite${suffix}`,
+
+        setup() {
+            const file = getConfig().sqlite.compareFile;
+            removeDatabase(file);
+
+            const db = new BunDatabase(file);
+            db.exec("PRAGMA journal_mode = WAL;");
+            db.exec("PRAGMA synchronous = NORMAL;");
+
+            db.run(`
+    CREATE TABLE IF NOT EXISTS benchmark_test (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+
+            return { db, statements: createStatementRunner(db, strategy) };
+        },
+
+        teardown({ db, statements }) {
+            statements.close();
+            db.close();
+        },
+
+        operations: {
+            WRITE: {
+                run({ statements }, workload) {
+                    const key = `key_${workload.newKey()}`;
+                    const value = workload.value();
+                    statements.run("INSERT INTO benchmark_test (key, value) VALUES (?, ?)", [key, value]);
+                },
+            },
+
+            // db.run() returns no rows, so the "run" strategy has no READ
+            ...(strategy !== "run"
+                ? {
+                      READ: {
+                          beforeAll({ db }: Context, workload: Workload) {
+                              const insert = db.prepare("INSERT INTO benchmark_test (key, value) VALUES (?, ?)");
+                              for (let i = 0; i < workload.spec.keyspace; i++) {
+                                  insert.run(`key_${i}`, workload.value());
+                              }
+                              insert.finalize();
+                          },
+                          run({ statements }: Context, workload: Workload) {
+                              statements.get!("SELECT value FROM benchmark_test WHERE key = ?", [`key_${workload.key()}`]);
+                          },
+                      },
+                  }
+                : {}),
+        },
+    });
+}
+
+export default STATEMENT_STRATEGIES.map(({ strategy, suffix }) => bunSqliteAdapter(strategy, suffix));
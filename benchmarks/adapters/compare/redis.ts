@@ -0,0 +1,41 @@
+import { defineAdapter } from "../../suite";
+import { createRedisClient } from "../redis/shared";
+import { seedBatches } from "../shared";
+
+export default defineAdapter({
+    library: "redis",
+    backend: "redis",
+
+    async setup() {
+        const client = createRedisClient();
+        await client.connect();
+        // Clean data for testing
+        await client.flushDb();
+        return client;
+    },
+
+    async teardown(client) {
+        await client.quit();
+    },
+
+    operations: {
+        WRITE: {
+            async run(client, workload) {
+                const key = `key_${workload.newKey()}`;
+                const value = workload.value();
+                await client.set(key, value);
+            },
+        },
+
+        READ: {
+            async beforeAll(client, workload) {
+                for (const ids of seedBatches(workload.spec)) {
+                    await Promise.all(ids.map((id) => client.set(`key_${id}`, workload.value())));
+                }
+            },
+            async run(client, workload) {
+                await client.get(`key_${workload.key()}`);
+            },
+        },
+    },
+});
@@ -0,0 +1,93 @@
+import { SQL } from "bun";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { payloadDefinitions, payloadRecord, seedBatches } from "../shared";
+import { ensureDatabase, mariadbConfig } from "./shared";
+
+function connect(): SQL {
+    const config = mariadbConfig();
+    return new SQL({
+        adapter: "mysql",
+        database: config.database,
+        username: config.user,
+        password: config.password,
+        port: config.port,
+        hostname: config.host,
+        tls: config.ssl,
+    });
+}
+
+// Column lists vary with the workload, so rows go through the sql(object) helper
+async function seed(sql: SQL, workload: Workload) {
+    for (const ids of seedBatches(workload.spec)) {
+        const rows = ids.map((id) => ({ name: `name_${id}`, value: id, ...payloadRecord(workload) }));
+        await sql`INSERT INTO benchmark_test ${sql(rows)}`;
+    }
+}
+
+export default defineAdapter({
+    library: "Bun SQL",
+    backend: "mariadb",
+
+    async setup(workload) {
+        // Ensure database exists first
+        await ensureDatabase();
+
+        const sql = connect();
+
+        // Recreate the test table: its payload columns follow the workload
+        await sql`DROP TABLE IF EXISTS benchmark_test`;
+        await sql.unsafe(`
+    CREATE TABLE benchmark_test (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      value INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP${payloadDefinitions(workload.spec, "MEDIUMTEXT")}
+    )
+  `);
+
+        return sql;
+    },
+
+    connect,
+
+    teardown(sql) {
+        sql.close();
+    },
+
+    operations: {
+        INSERT: {
+            async run(sql, workload) {
+                const id = workload.newKey();
+                await sql`INSERT INTO benchmark_test ${sql({ name: `name_${id}`, value: id, ...payloadRecord(workload) })}`;
+            },
+        },
+
+        SELECT: {
+            beforeAll: seed,
+            async run(sql, workload) {
+                await sql`SELECT * FROM benchmark_test WHERE value = ${workload.key()} LIMIT 1`;
+            },
+        },
+
+        UPDATE: {
+            beforeAll: seed,
+            async run(sql, workload) {
+                const row = { value: workload.int(workload.spec.keyspace), ...payloadRecord(workload) };
+                await sql`UPDATE benchmark_test SET ${sql(row)} WHERE id = ${workload.key() + 1}`;
+            },
+        },
+
+        DELETE: {
+            // Inserts the row each call deletes, outside the timed region
+            async beforeEach(sql, workload) {
+                const id = workload.newKey();
+                const result = await sql`INSERT INTO benchmark_test ${sql({ name: `name_${id}`, value: id, ...payloadRecord(workload) })}`;
+                return Number(result.lastInsertRowid);
+            },
+            async run(sql, workload, id: number) {
+                await sql`DELETE FROM benchmark_test WHERE id = ${id}`;
+            },
+        },
+    },
+});
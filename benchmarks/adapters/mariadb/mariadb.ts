@@ -0,0 +1,129 @@
+import mariadb, { type Pool } from "mariadb";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { insertParams, payloadDefinitions, seedBatches, tableStatements, updateParams } from "../shared";
+import { ensureDatabase, mariadbConfig } from "./shared";
+
+function connect(): Pool {
+    return mariadb.createPool(mariadbConfig());
+}
+
+async function seed(pool: Pool, workload: Workload) {
+    const { insert } = tableStatements(workload.spec);
+    const conn = await pool.getConnection();
+    try {
+        for (const ids of seedBatches(workload.spec)) {
+            await conn.batch(insert, ids.map((id) => insertParams(workload, id)));
+        }
+    } finally {
+        conn.release();
+    }
+}
+
+export default defineAdapter({
+    library: "mariadb",
+    backend: "mariadb",
+
+    async setup(workload) {
+        // Ensure database exists first
+        await ensureDatabase();
+
+        // Connect with MariaDB package
+        const pool = connect();
+
+        const conn = await pool.getConnection();
+
+        // Recreate the test table: its payload columns follow the workload
+        try {
+            await conn.query("DROP TABLE IF EXISTS benchmark_test");
+            await conn.query(`
+    CREATE TABLE benchmark_test (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      value INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP${payloadDefinitions(workload.spec, "MEDIUMTEXT")}
+    )
+  `);
+        } finally {
+            conn.release();
+        }
+
+        return pool;
+    },
+
+    connect,
+
+    async teardown(pool) {
+        await pool.end();
+    },
+
+    operations: {
+        INSERT: {
+            async run(pool, workload) {
+                const conn = await pool.getConnection();
+                try {
+                    await conn.query(
+                        tableStatements(workload.spec).insert,
+                        insertParams(workload, workload.newKey()),
+                    );
+                } finally {
+                    conn.release();
+                }
+            },
+        },
+
+        SELECT: {
+            beforeAll: seed,
+            async run(pool, workload) {
+                const conn = await pool.getConnection();
+                try {
+                    await conn.query(
+                        "SELECT * FROM benchmark_test WHERE value = ? LIMIT 1",
+                        [workload.key()],
+                    );
+                } finally {
+                    conn.release();
+                }
+            },
+        },
+
+        UPDATE: {
+            beforeAll: seed,
+            async run(pool, workload) {
+                const conn = await pool.getConnection();
+                try {
+                    await conn.query(
+                        tableStatements(workload.spec).update,
+                        updateParams(workload),
+                    );
+                } finally {
+                    conn.release();
+                }
+            },
+        },
+
+        DELETE: {
+            // Inserts the row each call deletes, outside the timed region
+            async beforeEach(pool, workload) {
+                const conn = await pool.getConnection();
+                try {
+                    const result = await conn.query(
+                        tableStatements(workload.spec).insert,
+                        insertParams(workload, workload.newKey()),
+                    );
+                    return Number(result.insertId);
+                } finally {
+                    conn.release();
+                }
+            },
+            async run(pool, workload, id: number) {
+                const conn = await pool.getConnection();
+                try {
+                    await conn.query("DELETE FROM benchmark_test WHERE id = ?", [id]);
+                } finally {
+                    conn.release();
+                }
+            },
+        },
+    },
+});
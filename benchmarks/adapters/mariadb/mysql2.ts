@@ -0,0 +1,94 @@
+import mysql, { type Pool, type ResultSetHeader } from "mysql2/promise";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { insertParams, payloadDefinitions, seedBatches, tableStatements, updateParams } from "../shared";
+import { ensureDatabase, mariadbConfig } from "./shared";
+
+// Pooled, like mariadb and Bun SQL
+function connect(): Pool {
+    const { ssl, ...config } = mariadbConfig();
+    return mysql.createPool({ ...config, ssl: ssl || undefined });
+}
+
+async function seed(pool: Pool, workload: Workload) {
+    const { bulkInsert } = tableStatements(workload.spec);
+    for (const ids of seedBatches(workload.spec)) {
+        await pool.query(bulkInsert, [ids.map((id) => insertParams(workload, id))]);
+    }
+}
+
+export default defineAdapter({
+    library: "mysql2",
+    backend: "mariadb",
+
+    async setup(workload) {
+        // Ensure database exists first
+        await ensureDatabase();
+
+        const pool = connect();
+
+        // Recreate the test table: its payload columns follow the workload
+        await pool.query("DROP TABLE IF EXISTS benchmark_test");
+        await pool.query(`
+    CREATE TABLE benchmark_test (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      value INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP${payloadDefinitions(workload.spec, "MEDIUMTEXT")}
+    )
+  `);
+
+        return pool;
+    },
+
+    connect,
+
+    async teardown(pool) {
+        await pool.end();
+    },
+
+    operations: {
+        INSERT: {
+            async run(pool, workload) {
+                await pool.execute(
+                    tableStatements(workload.spec).insert,
+                    insertParams(workload, workload.newKey()),
+                );
+            },
+        },
+
+        SELECT: {
+            beforeAll: seed,
+            async run(pool, workload) {
+                await pool.execute(
+                    "SELECT * FROM benchmark_test WHERE value = ? LIMIT 1",
+                    [workload.key()],
+                );
+            },
+        },
+
+        UPDATE: {
+            beforeAll: seed,
+            async run(pool, workload) {
+                await pool.execute(
+                    tableStatements(workload.spec).update,
+                    updateParams(workload),
+                );
+            },
+        },
+
+        DELETE: {
+            // Inserts the row each call deletes, outside the timed region
+            async beforeEach(pool, workload) {
+                const [result] = await pool.execute<ResultSetHeader>(
+                    tableStatements(workload.spec).insert,
+                    insertParams(workload, workload.newKey()),
+                );
+                return result.insertId;
+            },
+            async run(pool, workload, id: number) {
+                await pool.execute("DELETE FROM benchmark_test WHERE id = ?", [id]);
+            },
+        },
+    },
+});
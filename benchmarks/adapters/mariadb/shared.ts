@@ -0,0 +1,27 @@
+import mariadb from "mariadb";
+import { getConfig, tlsOptions } from "../../config";
+
+/**
+ * Connection settings from the active config; ssl is false or node TLS options
+ */
+export function mariadbConfig() {
+    const { host, port, user, password, database, tls } = getConfig().mariadb;
+    return { host, port, user, password, database, ssl: tlsOptions(tls) };
+}
+
+export async function ensureDatabase() {
+    const { database, ...connection } = mariadbConfig();
+
+    // First create database (connect without database)
+    const pool = mariadb.createPool(connection);
+
+    try {
+        const conn = await pool.getConnection();
+        await conn.query(
+            `CREATE DATABASE IF NOT EXISTS ${database}`,
+        );
+        conn.release();
+    } finally {
+        await pool.end();
+    }
+}
@@ -0,0 +1,67 @@
+import type { RedisClient } from "bun";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { seedBatches } from "../shared";
+import { connectBunRedis } from "./shared";
+
+// One pipelined batch at a time
+async function seed(client: RedisClient, workload: Workload) {
+    for (const ids of seedBatches(workload.spec)) {
+        await Promise.all(ids.map((id) => client.set(`test_key_${id}`, workload.value())));
+    }
+}
+
+export default defineAdapter({
+    library: "Bun Redis",
+    backend: "redis",
+
+    // A dedicated client instead of the global `redis`, so the configured URL and TLS apply
+    async setup() {
+        const client = await connectBunRedis();
+        // Clean data for testing
+        await client.send("FLUSHDB", []);
+        return client;
+    },
+
+    connect() {
+        return connectBunRedis();
+    },
+
+    teardown(client) {
+        client.close();
+    },
+
+    operations: {
+        "Cache SET": {
+            async run(client, workload) {
+                await client.set(`test_key_${workload.key()}`, workload.value());
+            },
+        },
+
+        "Cache GET": {
+            beforeAll: seed,
+            async run(client, workload) {
+                await client.get(`test_key_${workload.key()}`);
+            },
+        },
+
+        "Cache DEL": {
+            // Sets the key each call deletes, outside the timed region
+            async beforeEach(client, workload) {
+                const key = `temp_key_${workload.newKey()}`;
+                await client.set(key, workload.value());
+                return key;
+            },
+            async run(client, workload, key: string) {
+                await client.del(key);
+            },
+            options: { warmup: 10 },
+        },
+
+        "Pub/Sub PUBLISH": {
+            async run(client, workload) {
+                await client.publish("test_channel", workload.value());
+            },
+        },
+    },
+});
@@ -0,0 +1,80 @@
+import Memcached from "memcached";
+import { defineAdapter } from "../../suite";
+import { seedBatches } from "../shared";
+import { memcachedLocation } from "./shared";
+
+function set(client: Memcached, key: string, value: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        client.set(key, value, 1000, (err: Error | undefined) => {
+            if (err) reject(err);
+            else resolve();
+        });
+    });
+}
+
+export default defineAdapter<Memcached>({
+    library: "memcached",
+    backend: "memcached",
+
+    setup() {
+        return new Promise((resolve, reject) => {
+            const client = new Memcached(memcachedLocation());
+            // Clean data for testing
+            client.flush((err: Error | undefined) => {
+                if (err) reject(err);
+                else resolve(client);
+            });
+        });
+    },
+
+    connect() {
+        return new Memcached(memcachedLocation());
+    },
+
+    teardown(client) {
+        client.end();
+    },
+
+    operations: {
+        "Cache SET": {
+            run(client, workload) {
+                return set(client, `test_key_${workload.key()}`, workload.value());
+            },
+        },
+
+        "Cache GET": {
+            // One batch of sets in flight at a time
+            async beforeAll(client, workload) {
+                for (const ids of seedBatches(workload.spec)) {
+                    await Promise.all(ids.map((id) => set(client, `test_key_${id}`, workload.value())));
+                }
+            },
+            run(client, workload) {
+                return new Promise<void>((resolve, reject) => {
+                    client.get(`test_key_${workload.key()}`, (err: Error | undefined) => {
+                        if (err) reject(err);
+                        else resolve();
+                    });
+                });
+            },
+        },
+
+        "Cache DEL": {
+            // Sets the key each call deletes, outside the timed region
+            async beforeEach(client, workload) {
+                const key = `temp_key_${workload.newKey()}`;
+                await set(client, key, workload.value());
+                return key;
+            },
+            run(client, workload, key: string) {
+                return new Promise<void>((resolve, reject) => {
+                    client.del(key, (err: Error | undefined) => {
+                        if (err) reject(err);
+                        else resolve();
+                    });
+                });
+            },
+            options: { warmup: 10 },
+        },
+    },
+});
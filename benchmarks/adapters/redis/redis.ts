@@ -0,0 +1,70 @@
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { seedBatches } from "../shared";
+import { createRedisClient } from "./shared";
+
+type Client = ReturnType<typeof createRedisClient>;
+
+// One pipelined batch at a time
+async function seed(client: Client, workload: Workload) {
+    for (const ids of seedBatches(workload.spec)) {
+        await Promise.all(ids.map((id) => client.set(`test_key_${id}`, workload.value())));
+    }
+}
+
+export default defineAdapter({
+    library: "redis",
+    backend: "redis",
+
+    async setup() {
+        const client = createRedisClient();
+        await client.connect();
+        // Clean data for testing
+        await client.flushDb();
+        return client;
+    },
+
+    async connect() {
+        const client = createRedisClient();
+        await client.connect();
+        return client;
+    },
+
+    async teardown(client) {
+        await client.quit();
+    },
+
+    operations: {
+        "Cache SET": {
+            async run(client, workload) {
+                await client.set(`test_key_${workload.key()}`, workload.value());
+            },
+        },
+
+        "Cache GET": {
+            beforeAll: seed,
+            async run(client, workload) {
+                await client.get(`test_key_${workload.key()}`);
+            },
+        },
+
+        "Cache DEL": {
+            // Sets the key each call deletes, outside the timed region
+            async beforeEach(client, workload) {
+                const key = `temp_key_${workload.newKey()}`;
+                await client.set(key, workload.value());
+                return key;
+            },
+            async run(client, workload, key: string) {
+                await client.del(key);
+            },
+            options: { warmup: 10 },
+        },
+
+        "Pub/Sub PUBLISH": {
+            async run(client, workload) {
+                await client.publish("test_channel", workload.value());
+            },
+        },
+    },
+});
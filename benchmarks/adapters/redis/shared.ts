@@ -0,0 +1,26 @@
+import { RedisClient, type RedisOptions } from "bun";
+import { createClient } from "redis";
+import { getConfig, tlsOptions } from "../../config";
+
+/**
+ * Creates a connected Bun Redis client for the configured server
+ */
+export async function connectBunRedis(options: RedisOptions = {}): Promise<RedisClient> {
+    const { url, tls } = getConfig().redis;
+    const client = new RedisClient(url, { ...options, tls: tlsOptions(tls) });
+    await client.connect();
+    return client;
+}
+
+/**
+ * Creates a node-redis client for the configured server (not yet connected)
+ */
+export function createRedisClient() {
+    const { url, tls } = getConfig().redis;
+    const secure = tlsOptions(tls);
+    return createClient(secure ? { url, socket: { ...secure, tls: true } } : { url });
+}
+
+export function memcachedLocation(): string {
+    return getConfig().memcached.location;
+}
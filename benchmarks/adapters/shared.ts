@@ -0,0 +1,101 @@
+import { existsSync, unlinkSync } from "fs";
+import { payloadColumns, type Workload, type WorkloadSpec } from "../workload";
+
+/**
+ * Parameterised statements of the benchmark_test table for one workload
+ */
+export interface TableStatements {
+    // name, value, then the payload columns
+    insert: string;
+    // value and the payload columns, then the id
+    update: string;
+    // Multi-row insert for mysql2's `VALUES ?` expansion of an array of insertParams()
+    bulkInsert: string;
+    payloads: string[];
+}
+
+// Seeding batches stay around this many bytes of values, so large rows don't exceed max_allowed_packet
+const SEED_BATCH_BYTES = 1024 * 1024;
+const MAX_SEED_BATCH = 1000;
+
+const statements = new WeakMap<WorkloadSpec, TableStatements>();
+
+/**
+ * Deletes a SQLite database file and its WAL files, so a case starts from an empty database
+ */
+export function removeDatabase(file: string) {
+    if (existsSync(file)) {
+        try {
+            unlinkSync(file);
+            if (existsSync(`${file}-wal`)) unlinkSync(`${file}-wal`);
+            if (existsSync(`${file}-shm`)) unlinkSync(`${file}-shm`);
+        } catch (e) {}
+    }
+}
+
+/**
+ * Payload column definitions to append to CREATE TABLE benchmark_test, e.g. ",\n payload_1 TEXT NOT NULL"
+ */
+export function payloadDefinitions(spec: WorkloadSpec, type: string): string {
+    return payloadColumns(spec)
+        .map((column) => `,\n      ${column} ${type} NOT NULL`)
+        .join("");
+}
+
+/**
+ * INSERT and UPDATE of benchmark_test with the workload's payload columns; built once per
+ * workload so the measured calls don't pay for it
+ */
+export function tableStatements(spec: WorkloadSpec): TableStatements {
+    let cached = statements.get(spec);
+    if (!cached) {
+        const payloads = payloadColumns(spec);
+        const columns = ["name", "value", ...payloads];
+        cached = {
+            insert: `INSERT INTO benchmark_test (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+            update: `UPDATE benchmark_test SET ${["value", ...payloads].map((c) => `${c} = ?`).join(", ")} WHERE id = ?`,
+            bulkInsert: `INSERT INTO benchmark_test (${columns.join(", ")}) VALUES ?`,
+            payloads,
+        };
+        statements.set(spec, cached);
+    }
+    return cached;
+}
+
+/**
+ * Ids 0 .. keyspace-1 split into batches for seeding with one statement or pipeline each
+ */
+export function seedBatches(spec: WorkloadSpec): number[][] {
+    const valueSize = typeof spec.valueSize === "number" ? spec.valueSize : spec.valueSize.max;
+    // Payload columns of SQL rows, or the single value of a key-value record
+    const rowBytes = valueSize * Math.max(1, spec.rowWidth);
+    const size = Math.max(1, Math.min(MAX_SEED_BATCH, Math.floor(SEED_BATCH_BYTES / rowBytes)));
+    const batches: number[][] = [];
+    for (let start = 0; start < spec.keyspace; start += size) {
+        batches.push(Array.from({ length: Math.min(size, spec.keyspace - start) }, (_, i) => start + i));
+    }
+    return batches;
+}
+
+/**
+ * Parameters of tableStatements().insert for row `id`
+ */
+export function insertParams(workload: Workload, id: number): (string | number)[] {
+    return [`name_${id}`, id, ...workload.row()];
+}
+
+/**
+ * Parameters of tableStatements().update: a new value and payloads for a random existing row
+ */
+export function updateParams(workload: Workload): (string | number)[] {
+    return [workload.int(workload.spec.keyspace), ...workload.row(), workload.key() + 1];
+}
+
+/**
+ * Payload columns and values of one row as an object (for Bun SQL's sql(row) helper)
+ */
+export function payloadRecord(workload: Workload): Record<string, string> {
+    const { payloads } = tableStatements(workload.spec);
+    const values = workload.row();
+    return Object.fromEntries(payloads.map((column, i) => [column, values[i]!]));
+}
@@ -0,0 +1,127 @@
+import { getConfig } from "../../config";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { insertParams, payloadDefinitions, removeDatabase, tableStatements, updateParams } from "../shared";
+
+// The parts of better-sqlite3's API the adapter uses (the package ships no types)
+interface Statement {
+    run(...params: unknown[]): { changes: number; lastInsertRowid: number | bigint };
+    get(...params: unknown[]): unknown;
+}
+
+interface Database {
+    prepare(sql: string): Statement;
+    pragma(source: string): unknown;
+    exec(sql: string): Database;
+    close(): void;
+}
+
+type DatabaseConstructor = new (file: string) => Database;
+
+interface Context {
+    db: Database;
+    insert: Statement;
+    select: Statement;
+    update: Statement;
+    remove: Statement;
+}
+
+let BetterDatabase: DatabaseConstructor | null = null;
+
+// Loaded on first use: a native module that doesn't build or load under Bun would
+// otherwise fail the whole suite at import time
+function loadDatabase(): DatabaseConstructor {
+    if (!BetterDatabase) {
+        try {
+            BetterDatabase = require("better-sqlite3") as DatabaseConstructor;
+            // The binding is only located when the first database opens
+            new BetterDatabase(":memory:").close();
+        } catch (error) {
+            BetterDatabase = null;
+            // First sentence only: binding errors go on to list every path they tried
+            const message = error instanceof Error ? error.message.split(/\.\s|\n/)[0] : String(error);
+            throw new Error(`better-sqlite3 native module failed to load under Bun (${message})`);
+        }
+    }
+    return BetterDatabase;
+}
+
+function seed({ insert }: Context, workload: Workload) {
+    for (let i = 0; i < workload.spec.keyspace; i++) {
+        insert.run(...insertParams(workload, i));
+    }
+}
+
+export default defineAdapter<Context>({
+    library: "better-sqlite3",
+
+    probe() {
+        loadDatabase();
+    },
+
+    setup(workload) {
+        const file = getConfig().sqlite.file;
+        removeDatabase(file);
+
+        const Database = loadDatabase();
+        const db = new Database(file);
+        db.pragma("journal_mode = WAL");
+        db.pragma("synchronous = NORMAL");
+
+        db.exec(`
+    CREATE TABLE IF NOT EXISTS benchmark_test (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      value INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))${payloadDefinitions(workload.spec, "TEXT")}
+    )
+  `);
+
+        // Prepared once and reused, as better-sqlite3 is meant to be used
+        const { insert, update } = tableStatements(workload.spec);
+        return {
+            db,
+            insert: db.prepare(insert),
+            select: db.prepare("SELECT * FROM benchmark_test WHERE value = ?"),
+            update: db.prepare(update),
+            remove: db.prepare("DELETE FROM benchmark_test WHERE id = ?"),
+        };
+    },
+
+    teardown({ db }) {
+        db.close();
+    },
+
+    operations: {
+        INSERT: {
+            run({ insert }, workload) {
+                insert.run(...insertParams(workload, workload.newKey()));
+            },
+        },
+
+        SELECT: {
+            beforeAll: seed,
+            run({ select }, workload) {
+                select.get(workload.key());
+            },
+        },
+
+        UPDATE: {
+            beforeAll: seed,
+            run({ update }, workload) {
+                update.run(...updateParams(workload));
+            },
+        },
+
+        DELETE: {
+            // Inserts the row each call deletes, outside the timed region
+            beforeEach({ insert }, workload) {
+                return Number(insert.run(...insertParams(workload, workload.newKey())).lastInsertRowid);
+            },
+            run({ remove }, workload, id: number) {
+                remove.run(id);
+            },
+            options: { warmup: 10 },
+        },
+    },
+});
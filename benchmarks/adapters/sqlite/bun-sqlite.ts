@@ -0,0 +1,96 @@
+import { Database as BunDatabase } from "bun:sqlite";
+import { getConfig } from "../../config";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { insertParams, payloadDefinitions, removeDatabase, tableStatements, updateParams } from "../shared";
+import { createStatementRunner, STATEMENT_STRATEGIES, type StatementRunner, type StatementStrategy } from "./statements";
+
+interface Context {
+    db: BunDatabase;
+    statements: StatementRunner;
+}
+
+function seed({ db }: Context, workload: Workload) {
+    const insert = db.prepare(tableStatements(workload.spec).insert);
+    for (let i = 0; i < workload.spec.keyspace; i++) {
+        insert.run(...insertParams(workload, i));
+    }
+    insert.finalize();
+}
+
+/**
+ * Bun SQLite running every operation under one statement strategy
+ */
+function bunSqliteAdapter(strategy: StatementStrategy, suffix: string) {
+    return defineAdapter<Context>({
+        library: `Bun SQLite${suffix}`,
+
+        setup(workload) {
+            const file = getConfig().sqlite.file;
+            removeDatabase(file);
+
+            const db = new BunDatabase(file);
+            db.exec("PRAGMA journal_mode = WAL;");
+            db.exec("PRAGMA synchronous = NORMAL;");
+
+            db.run(`
+    CREATE TABLE IF NOT EXISTS benchmark_test (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      value INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))${payloadDefinitions(workload.spec, "TEXT")}
+    )
+  `);
+
+            return { db, statements: createStatementRunner(db, strategy) };
+        },
+
+        teardown({ db, statements }) {
+            statements.close();
+            db.close();
+        },
+
+        operations: {
+            INSERT: {
+                run({ statements }, workload) {
+                    statements.run(tableStatements(workload.spec).insert, insertParams(workload, workload.newKey()));
+                },
+            },
+
+            // db.run() returns no rows, so the "run" strategy has no SELECT
+            ...(strategy !== "run"
+                ? {
+                      SELECT: {
+                          beforeAll: seed,
+                          run({ statements }: Context, workload: Workload) {
+                              statements.get!("SELECT * FROM benchmark_test WHERE value = ?", [workload.key()]);
+                          },
+                      },
+                  }
+                : {}),
+
+            UPDATE: {
+                beforeAll: seed,
+                run({ statements }, workload) {
+                    statements.run(tableStatements(workload.spec).update, updateParams(workload));
+                },
+            },
+
+            DELETE: {
+                // Inserts the row each call deletes, outside the timed region
+                beforeEach({ db }, workload) {
+                    const insert = db.prepare(tableStatements(workload.spec).insert);
+                    const { lastInsertRowid } = insert.run(...insertParams(workload, workload.newKey()));
+                    insert.finalize();
+                    return Number(lastInsertRowid);
+                },
+                run({ statements }, workload, id: number) {
+                    statements.run("DELETE FROM benchmark_test WHERE id = ?", [id]);
+                },
+                options: { warmup: 10 },
+            },
+        },
+    });
+}
+
+export default STATEMENT_STRATEGIES.map(({ strategy, suffix }) => bunSqliteAdapter(strategy, suffix));
@@ -0,0 +1,84 @@
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import { defineAdapter } from "../../suite";
+import type { Workload } from "../../workload";
+import { insertParams, payloadDefinitions, tableStatements, updateParams } from "../shared";
+
+let SQL: SqlJsStatic | null = null;
+
+async function initSqlJsModule() {
+    if (!SQL) {
+        SQL = await initSqlJs();
+    }
+    return SQL;
+}
+
+function seed(db: Database, workload: Workload) {
+    const { insert } = tableStatements(workload.spec);
+    for (let i = 0; i < workload.spec.keyspace; i++) {
+        db.run(insert, insertParams(workload, i));
+    }
+}
+
+export default defineAdapter({
+    library: "sql.js",
+
+    async setup(workload) {
+        const SQL = await initSqlJsModule();
+        const db = new SQL.Database();
+
+        db.run(`
+    CREATE TABLE IF NOT EXISTS benchmark_test (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      value INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))${payloadDefinitions(workload.spec, "TEXT")}
+    )
+  `);
+
+        return db;
+    },
+
+    teardown(db) {
+        db.close();
+    },
+
+    operations: {
+        INSERT: {
+            run(db, workload) {
+                db.run(
+                    tableStatements(workload.spec).insert,
+                    insertParams(workload, workload.newKey())
+                );
+            },
+        },
+
+        SELECT: {
+            beforeAll: seed,
+            run(db, workload) {
+                db.exec(
+                    `SELECT * FROM benchmark_test WHERE value = ${workload.key()}`
+                );
+            },
+        },
+
+        UPDATE: {
+            beforeAll: seed,
+            run(db, workload) {
+                db.run(tableStatements(workload.spec).update, updateParams(workload));
+            },
+        },
+
+        DELETE: {
+            // Inserts the row each call deletes, outside the timed region
+            beforeEach(db, workload) {
+                db.run(tableStatements(workload.spec).insert, insertParams(workload, workload.newKey()));
+                const result = db.exec("SELECT last_insert_rowid() as id");
+                return result[0]?.values[0]?.[0] as number;
+            },
+            run(db, workload, id: number) {
+                db.run("DELETE FROM benchmark_test WHERE id = ?", [id]);
+            },
+            options: { warmup: 10 },
+        },
+    },
+});
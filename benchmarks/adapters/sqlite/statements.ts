@@ -0,0 +1,86 @@
+import type { Changes, Database, SQLQueryBindings, Statement } from "bun:sqlite";
+
+/**
+ * How a Bun SQLite adapter turns SQL into executed statements
+ */
+export type StatementStrategy = "prepare" | "cached" | "query" | "run";
+
+/**
+ * Executes SQL under one strategy; params are bound positionally
+ */
+export interface StatementRunner {
+    run(sql: string, params: SQLQueryBindings[]): Changes;
+    // Missing for "run": db.run() returns no rows
+    get?(sql: string, params: SQLQueryBindings[]): unknown;
+    // Finalizes statements the runner kept
+    close(): void;
+}
+
+// Library name suffix and description (Markdown, for the report legend) of each strategy, in report order
+export const STATEMENT_STRATEGIES: { strategy: StatementStrategy; suffix: string; description: string }[] = [
+    { strategy: "prepare", suffix: "", description: "`db.prepare()` and `finalize()` on every call" },
+    { strategy: "cached", suffix: " (cached)", description: "one `db.prepare()` per SQL string, reused" },
+    { strategy: "query", suffix: " (query)", description: "`db.query()`, Bun's own statement cache" },
+    { strategy: "run", suffix: " (run)", description: "`db.run()` with bound params, writes only" },
+];
+
+/**
+ * Legend of the Bun SQLite libraries for suite reports, e.g. "Bun SQLite (cached): one ..."
+ */
+export function describeStrategies(): string {
+    return STATEMENT_STRATEGIES.map(({ suffix, description }) => `Bun SQLite${suffix}: ${description}`).join("; ");
+}
+
+/**
+ * Creates the statement runner of a strategy for one database
+ */
+export function createStatementRunner(db: Database, strategy: StatementStrategy): StatementRunner {
+    switch (strategy) {
+        case "prepare":
+            return {
+                run(sql, params) {
+                    const stmt = db.prepare(sql);
+                    const changes = stmt.run(...params);
+                    stmt.finalize();
+                    return changes;
+                },
+                get(sql, params) {
+                    const stmt = db.prepare(sql);
+                    const row = stmt.get(...params);
+                    stmt.finalize();
+                    return row;
+                },
+                close() {},
+            };
+        case "cached": {
+            const cache = new Map<string, Statement>();
+            const prepared = (sql: string) => {
+                let stmt = cache.get(sql);
+                if (!stmt) {
+                    stmt = db.prepare(sql);
+                    cache.set(sql, stmt);
+                }
+                return stmt;
+            };
+            return {
+                run: (sql, params) => prepared(sql).run(...params),
+                get: (sql, params) => prepared(sql).get(...params),
+                close() {
+                    for (const stmt of cache.values()) stmt.finalize();
+                    cache.clear();
+                },
+            };
+        }
+        case "query":
+            return {
+                run: (sql, params) => db.query(sql).run(...params),
+                get: (sql, params) => db.query(sql).get(...params),
+                close() {},
+            };
+        case "run":
+            return {
+                run: (sql, params) => db.run(sql, params),
+                close() {},
+            };
+    }
+}
@@ -0,0 +1,32 @@
+import { defineKvAdapter } from "../../kv";
+import { connectBunRedis } from "../redis/shared";
+import { INDEX_KEY, recordKey } from "./shared";
+
+export default defineKvAdapter({
+    library: "Bun Redis",
+    backend: "redis",
+
+    async open() {
+        const client = await connectBunRedis();
+        // Clean data for testing
+        await client.send("FLUSHDB", []);
+
+        return {
+            read: (id) => client.get(recordKey(id)),
+            update: (id, value) => client.set(recordKey(id), value),
+            // Records are indexed in a sorted set by id, so scans can walk them in order
+            insert: (id, value) =>
+                Promise.all([client.set(recordKey(id), value), client.send("ZADD", [INDEX_KEY, String(id), recordKey(id)])]),
+            async scan(id, count) {
+                const keys: string[] = await client.send("ZRANGEBYSCORE", [INDEX_KEY, String(id), "+inf", "LIMIT", "0", String(count)]);
+                return keys.length > 0 ? client.mget(...keys) : [];
+            },
+            load: (ids, values) =>
+                Promise.all([
+                    client.send("MSET", ids.flatMap((id, i) => [recordKey(id), values[i]!])),
+                    client.send("ZADD", [INDEX_KEY, ...ids.flatMap((id) => [String(id), recordKey(id)])]),
+                ]),
+            close: () => client.close(),
+        };
+    },
+});
@@ -0,0 +1,39 @@
+import { Database as BunDatabase } from "bun:sqlite";
+import { getConfig } from "../../config";
+import { defineKvAdapter } from "../../kv";
+import { removeDatabase } from "../shared";
+
+export default defineKvAdapter({
+    library: "Bun SQLite",
+
+    open() {
+        const file = getConfig().sqlite.file;
+        removeDatabase(file);
+
+        const db = new BunDatabase(file);
+        db.exec("PRAGMA journal_mode = WAL;");
+        db.exec("PRAGMA synchronous = NORMAL;");
+        db.run("CREATE TABLE ycsb_kv (id INTEGER PRIMARY KEY, value TEXT NOT NULL)");
+
+        // Prepared once per case, as a long-lived key-value binding would
+        const read = db.prepare("SELECT value FROM ycsb_kv WHERE id = ?");
+        const update = db.prepare("UPDATE ycsb_kv SET value = ? WHERE id = ?");
+        const insert = db.prepare("INSERT OR REPLACE INTO ycsb_kv (id, value) VALUES (?, ?)");
+        const scan = db.prepare("SELECT id, value FROM ycsb_kv WHERE id >= ? ORDER BY id LIMIT ?");
+        const load = db.transaction((ids: number[], values: string[]) => {
+            ids.forEach((id, i) => insert.run(id, values[i]!));
+        });
+
+        return {
+            read: (id) => read.get(id),
+            update: (id, value) => update.run(value, id),
+            insert: (id, value) => insert.run(id, value),
+            scan: (id, count) => scan.all(id, count),
+            load: (ids, values) => load(ids, values),
+            close() {
+                for (const stmt of [read, update, insert, scan]) stmt.finalize();
+                db.close();
+            },
+        };
+    },
+});
@@ -0,0 +1,27 @@
+import mariadb from "mariadb";
+import { defineKvAdapter } from "../../kv";
+import { ensureDatabase, mariadbConfig } from "../mariadb/shared";
+
+export default defineKvAdapter({
+    library: "mariadb",
+    backend: "mariadb",
+
+    async open() {
+        // Ensure database exists first
+        await ensureDatabase();
+
+        const pool = mariadb.createPool(mariadbConfig());
+        await pool.query("DROP TABLE IF EXISTS ycsb_kv");
+        await pool.query("CREATE TABLE ycsb_kv (id INT PRIMARY KEY, value MEDIUMTEXT NOT NULL)");
+
+        return {
+            read: (id) => pool.query("SELECT value FROM ycsb_kv WHERE id = ?", [id]),
+            update: (id, value) => pool.query("UPDATE ycsb_kv SET value = ? WHERE id = ?", [value, id]),
+            insert: (id, value) => pool.query("REPLACE INTO ycsb_kv (id, value) VALUES (?, ?)", [id, value]),
+            scan: (id, count) => pool.query("SELECT id, value FROM ycsb_kv WHERE id >= ? ORDER BY id LIMIT ?", [id, count]),
+            load: (ids, values) =>
+                pool.batch("REPLACE INTO ycsb_kv (id, value) VALUES (?, ?)", ids.map((id, i) => [id, values[i]])),
+            close: () => pool.end(),
+        };
+    },
+});
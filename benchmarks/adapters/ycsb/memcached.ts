@@ -0,0 +1,45 @@
+import Memcached from "memcached";
+import { defineKvAdapter } from "../../kv";
+import { memcachedLocation } from "../redis/shared";
+import { recordKey } from "./shared";
+
+function set(client: Memcached, id: number, value: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        client.set(recordKey(id), value, 1000, (err: Error | undefined) => {
+            if (err) reject(err);
+            else resolve();
+        });
+    });
+}
+
+export default defineKvAdapter({
+    library: "memcached",
+    backend: "memcached",
+    // No ordered keys, so workload E doesn't apply
+    scans: false,
+
+    open() {
+        return new Promise((resolve, reject) => {
+            const client = new Memcached(memcachedLocation());
+            // Clean data for testing
+            client.flush((err: Error | undefined) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve({
+                    read: (id) =>
+                        new Promise<void>((resolve, reject) => {
+                            client.get(recordKey(id), (err: Error | undefined) => {
+                                if (err) reject(err);
+                                else resolve();
+                            });
+                        }),
+                    update: (id, value) => set(client, id, value),
+                    insert: (id, value) => set(client, id, value),
+                    close: () => client.end(),
+                });
+            });
+        });
+    },
+});
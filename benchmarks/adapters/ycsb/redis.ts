@@ -0,0 +1,35 @@
+import { defineKvAdapter } from "../../kv";
+import { createRedisClient } from "../redis/shared";
+import { INDEX_KEY, recordKey } from "./shared";
+
+export default defineKvAdapter({
+    library: "redis",
+    backend: "redis",
+
+    async open() {
+        const client = createRedisClient();
+        await client.connect();
+        // Clean data for testing
+        await client.flushDb();
+
+        return {
+            read: (id) => client.get(recordKey(id)),
+            update: (id, value) => client.set(recordKey(id), value),
+            // Records are indexed in a sorted set by id, so scans can walk them in order
+            insert: (id, value) =>
+                Promise.all([client.set(recordKey(id), value), client.zAdd(INDEX_KEY, { score: id, value: recordKey(id) })]),
+            async scan(id, count) {
+                const keys = await client.zRangeByScore(INDEX_KEY, id, "+inf", { LIMIT: { offset: 0, count } });
+                return keys.length > 0 ? client.mGet(keys) : [];
+            },
+            load: (ids, values) =>
+                Promise.all([
+                    client.mSet(ids.map((id, i) => [recordKey(id), values[i]!] as [string, string])),
+                    client.zAdd(INDEX_KEY, ids.map((id) => ({ score: id, value: recordKey(id) }))),
+                ]),
+            async close() {
+                await client.quit();
+            },
+        };
+    },
+});
@@ -0,0 +1,9 @@
+// Sorted set of record keys scored by id, for scans on Redis
+export const INDEX_KEY = "ycsb:index";
+
+/**
+ * Key of a record in the key-value stores, e.g. "ycsb:user42"
+ */
+export function recordKey(id: number): string {
+    return `ycsb:user${id}`;
+}
@@ -0,0 +1,65 @@
+import { getConfig } from "./config";
+import { probeBackend, type Backend } from "./environment";
+import { waitForConnection } from "./utils";
+
+/**
+ * Result of probing one backend server
+ */
+export type BackendStatus = { available: true; version: string } | { available: false; reason: string };
+
+// Pause between probe attempts (ms)
+const RETRY_DELAY = 500;
+
+/**
+ * Probes each backend once, retrying up to probe.retries attempts of probe.timeout each
+ */
+export async function checkBackends(backends: Backend[]): Promise<Map<Backend, BackendStatus>> {
+    const { timeout, retries } = getConfig().probe;
+    const statuses = new Map<Backend, BackendStatus>();
+
+    for (const backend of new Set(backends)) {
+        let version = "";
+        let error: unknown;
+        const reachable = await waitForConnection(
+            async () => {
+                try {
+                    version = await probeBackend(backend, timeout);
+                    return true;
+                } catch (e) {
+                    error = e;
+                    throw e;
+                }
+            },
+            retries,
+            RETRY_DELAY
+        );
+
+        if (reachable) {
+            statuses.set(backend, { available: true, version });
+        } else {
+            const message = error instanceof Error ? error.message : String(error);
+            const attempts = retries > 1 ? ` after ${retries} attempts` : "";
+            statuses.set(backend, {
+                available: false,
+                reason: `${backend} unreachable at ${backendLocation(backend)}${attempts} (${message})`,
+            });
+        }
+    }
+
+    return statuses;
+}
+
+/**
+ * Helper: Configured address of a backend, without credentials
+ */
+function backendLocation(backend: Backend): string {
+    const config = getConfig();
+    switch (backend) {
+        case "mariadb":
+            return `${config.mariadb.host}:${config.mariadb.port}`;
+        case "redis":
+            return new URL(config.redis.url).host;
+        case "memcached":
+            return config.memcached.location;
+    }
+}
@@ -0,0 +1,228 @@
+import { copyFile, mkdir, readdir, readFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { intervalsOverlap } from "./stats";
+import { caseLabel, type BenchmarkResult, type SavedRun } from "./utils";
+
+export type ComparisonStatus = "regression" | "improvement" | "unchanged" | "new" | "missing";
+
+/**
+ * One case (operation label × library) of the current run against the baseline
+ */
+export interface CaseComparison {
+    // Operation with concurrency / worker suffix, as in printResults
+    operation: string;
+    library: string;
+    baselineOps: number | null;
+    currentOps: number | null;
+    // Relative throughput change (0.1 = 10% faster); null when a side is missing
+    change: number | null;
+    // 95% CIs of both runs don't overlap (unknown without multiple samples)
+    significant: boolean | null;
+    status: ComparisonStatus;
+}
+
+export interface CompareOptions {
+    // Slowdown (fraction, e.g. 0.05) beyond which a significant change is a regression
+    threshold: number;
+}
+
+// Baseline refs besides a file path
+export const LATEST = "latest";
+export const PINNED = "pinned";
+
+/**
+ * Reads a saved run written by saveResults
+ */
+export async function loadRun(file: string): Promise<SavedRun> {
+    const data = JSON.parse(await readFile(file, "utf8")) as Partial<SavedRun>;
+    if (!Array.isArray(data.results)) {
+        throw new Error(`${file} is not a saved benchmark run (no results array)`);
+    }
+    return data as SavedRun;
+}
+
+/**
+ * Saved runs of a results file prefix with at least one result, oldest first
+ * (runs whose libraries were all skipped are left out)
+ */
+export async function listRuns(prefix: string, resultsDir: string): Promise<string[]> {
+    if (!existsSync(resultsDir)) {
+        return [];
+    }
+    // Timestamped names sort chronologically
+    const pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-\\d{4}-\\d{2}-\\d{2}T.*\\.json$`);
+    const files = (await readdir(resultsDir)).filter((f) => pattern.test(f)).sort();
+    const runs: string[] = [];
+    for (const file of files.map((f) => path.join(resultsDir, f))) {
+        if (await hasResults(file)) runs.push(file);
+    }
+    return runs;
+}
+
+/**
+ * Path of the pinned baseline for a results file prefix
+ */
+export function pinnedPath(prefix: string, resultsDir: string): string {
+    return path.join(resultsDir, "baselines", `${prefix}.json`);
+}
+
+/**
+ * Copies a saved run to the pinned baseline location
+ */
+export async function pinBaseline(file: string, prefix: string, resultsDir: string): Promise<string> {
+    const target = pinnedPath(prefix, resultsDir);
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(file, target);
+    return target;
+}
+
+/**
+ * Resolves a baseline ref ("latest", "pinned" or a file path) to a file;
+ * `exclude` skips a run (the current one) when picking the latest
+ */
+export async function resolveBaseline(
+    ref: string,
+    prefix: string,
+    resultsDir: string,
+    exclude?: string
+): Promise<string | null> {
+    if (ref === PINNED) {
+        const pinned = pinnedPath(prefix, resultsDir);
+        return existsSync(pinned) ? pinned : null;
+    }
+    if (ref === LATEST) {
+        const runs = (await listRuns(prefix, resultsDir)).filter(
+            (f) => !exclude || path.resolve(f) !== path.resolve(exclude)
+        );
+        return runs[runs.length - 1] ?? null;
+    }
+    if (!existsSync(ref)) {
+        throw new Error(`Baseline file not found: ${ref}`);
+    }
+    return ref;
+}
+
+/**
+ * Matches cases by operation label and library and classifies each change
+ */
+export function compareRuns(
+    baseline: BenchmarkResult[],
+    current: BenchmarkResult[],
+    options: CompareOptions
+): CaseComparison[] {
+    const key = (r: BenchmarkResult) => `${caseLabel(r)}\u0000${r.library}`;
+    const before = new Map(baseline.map((r) => [key(r), r]));
+    const comparisons: CaseComparison[] = [];
+
+    for (const result of current) {
+        const base = before.get(key(result));
+        before.delete(key(result));
+        comparisons.push(compareCase(caseLabel(result), result.library, base, result, options));
+    }
+    // Cases that disappeared since the baseline
+    for (const base of before.values()) {
+        comparisons.push(compareCase(caseLabel(base), base.library, base, undefined, options));
+    }
+
+    return comparisons;
+}
+
+/**
+ * Cases whose throughput dropped significantly past the threshold
+ */
+export function regressions(comparisons: CaseComparison[]): CaseComparison[] {
+    return comparisons.filter((c) => c.status === "regression");
+}
+
+/**
+ * Prints a baseline vs current table with the change per case
+ */
+export function printComparison(comparisons: CaseComparison[], title: string, options: CompareOptions) {
+    console.log(`\n${"=".repeat(80)}`);
+    console.log(title);
+    console.log("=".repeat(80));
+
+    const marks: Record<ComparisonStatus, string> = {
+        regression: "🔴 regression",
+        improvement: "🟢 improvement",
+        unchanged: "unchanged",
+        new: "new",
+        missing: "missing",
+    };
+
+    console.table(
+        comparisons.map((c) => ({
+            Operation: c.operation,
+            Library: c.library,
+            "Baseline (ops/s)": c.baselineOps?.toFixed(0) ?? "-",
+            "Current (ops/s)": c.currentOps?.toFixed(0) ?? "-",
+            Change: c.change === null ? "-" : `${c.change >= 0 ? "+" : ""}${(c.change * 100).toFixed(1)}%`,
+            Significant: c.significant === null ? "?" : c.significant ? "yes" : "no",
+            Status: marks[c.status],
+        }))
+    );
+
+    const failed = regressions(comparisons).length;
+    console.log(
+        failed > 0
+            ? `\n❌ ${failed} regression(s) slower than -${(options.threshold * 100).toFixed(1)}%`
+            : `\n✓ No regressions beyond -${(options.threshold * 100).toFixed(1)}%`
+    );
+}
+
+/**
+ * Helper: Classifies one case; with a single sample only the threshold applies
+ */
+function compareCase(
+    operation: string,
+    library: string,
+    base: BenchmarkResult | undefined,
+    current: BenchmarkResult | undefined,
+    options: CompareOptions
+): CaseComparison {
+    if (!base || !current) {
+        return {
+            operation,
+            library,
+            baselineOps: base?.opsPerSecond ?? null,
+            currentOps: current?.opsPerSecond ?? null,
+            change: null,
+            significant: null,
+            status: base ? "missing" : "new",
+        };
+    }
+
+    const change = current.opsPerSecond / base.opsPerSecond - 1;
+    const significant =
+        base.samples && current.samples && base.samples.count > 1 && current.samples.count > 1
+            ? !intervalsOverlap(base.samples.ci95, current.samples.ci95)
+            : null;
+
+    let status: ComparisonStatus = "unchanged";
+    if (significant !== false && Math.abs(change) > options.threshold) {
+        status = change < 0 ? "regression" : "improvement";
+    }
+
+    return {
+        operation,
+        library,
+        baselineOps: base.opsPerSecond,
+        currentOps: current.opsPerSecond,
+        change,
+        significant,
+        status,
+    };
+}
+
+/**
+ * Helper: Whether a saved run has results; unreadable files count as runs so loadRun reports them
+ */
+async function hasResults(file: string): Promise<boolean> {
+    try {
+        const data = JSON.parse(await readFile(file, "utf8")) as Partial<SavedRun>;
+        return !Array.isArray(data.results) || data.results.length > 0;
+    } catch {
+        return true;
+    }
+}
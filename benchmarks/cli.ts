@@ -0,0 +1,288 @@
+import { parseArgs } from "util";
+import { DEFAULT_REPORTERS, reporterNames } from "./reporters";
+import type { RunSuiteOptions, Suite } from "./suite";
+import type { BenchmarkOptions } from "./utils";
+
+export type Command = "run" | "compare" | "report" | "list" | "help";
+
+export interface CliArgs {
+    command: Command;
+    // Name/glob patterns; empty means "all"
+    suites: string[];
+    operations: string[];
+    libraries: string[];
+    overrides: Partial<BenchmarkOptions>;
+    sweep: boolean;
+    workers: boolean;
+    // Reporter names
+    formats: string[];
+    outDir?: string;
+    dryRun: boolean;
+    // Config file and "key=value" config overrides
+    config?: string;
+    set: string[];
+    // Baseline ref: "latest", "pinned" or a results file
+    baseline?: string;
+    // Saved run to compare instead of the latest one (compare command)
+    current?: string;
+    // Regression threshold in percent (default from config)
+    threshold?: number;
+    pin: boolean;
+    // Saved runs to report on (report command; default: latest per suite)
+    files: string[];
+    // README whose marked results section is rewritten
+    readme?: string;
+    // HTML file to write instead of Markdown
+    html?: string;
+    machine?: string;
+}
+
+const COMMANDS: Command[] = ["run", "compare", "report", "list", "help"];
+
+export const USAGE = `Usage: bun run benchmarks/index.ts [command] [options]
+
+Commands:
+  run                    Run the selected benchmarks (default)
+  compare                Compare saved runs against a baseline
+  report [files...]      Markdown tables from saved runs (default: latest per suite)
+  list                   List available suites, operations and libraries
+  help                   Show this help
+
+Selection (comma-separated or repeated; names or globs like "Cache *"):
+  -s, --suite <name>     Suites to run (default: suites enabled in the config)
+  -o, --operation <name> Operations to run
+  -l, --library <name>   Libraries to run
+
+Overrides:
+  --iterations <n>       Fixed iterations per sample (replaces duration mode)
+  --duration <ms>        Wall time per case
+  --samples <n>          Independent samples per case
+  --warmup <n>           Warmup calls
+  --concurrency <n>      Operations in flight
+  --timeout <ms>         Per-call timeout of async operations
+  --max-error-rate <pct> Failed calls tolerated per sample (default 0: stop at
+                         the first error)
+  --seed <n>             Workload generator seed (default 1)
+  --rate <ops/sec>       Open loop: start calls at this rate on a fixed schedule
+                         and report latency from each call's scheduled start
+  --no-sweep             Skip concurrency sweeps
+  --no-workers           Skip multi-worker runs
+
+Config:
+  -c, --config <path>    Config file (default: $BENCH_CONFIG or ./bench.config.ts)
+  --set <key=value>      Override a config value, e.g. --set mariadb.port=3307
+                         (repeatable; applied after the file and env vars)
+
+Baseline:
+  --baseline <ref>       "latest", "pinned" or a results file; with run, compares
+                         the new results (default for compare: pinned, else the
+                         previous run)
+  --current <file>       Saved run to compare (default: latest per suite)
+  --threshold <pct>      Regression threshold in percent (default: config, 5)
+  --pin                  Pin the compared run as the suite's baseline
+
+Report:
+  --readme <path>        Rewrite the marked results section of a README instead
+                         of printing the Markdown
+  --html <path>          Write a self-contained HTML report with charts instead
+  --machine <name>       Machine name for the report heading
+
+Output:
+  -f, --format <list>    Reporters, several allowed: ${reporterNames().join(", ")}
+                         (default: ${DEFAULT_REPORTERS.join(", ")}; stdout prints one JSON
+                         document and sends progress to stderr)
+  --out <dir>            Directory for saved results (default: ./results)
+  --dry-run              Print the planned cases without running them
+
+Examples:
+  bun run bench run -s redis -o "Cache GET" -l "Bun Redis,redis" --no-workers
+  bun run bench run -s sqlite --baseline pinned
+  bun run bench compare -s mariadb --threshold 10
+  bun run bench report -s "*" --readme README.md --machine "Mac Mini M4"
+  bun run bench report -s redis --html redis-report.html`;
+
+/**
+ * Parses command-line arguments; throws on unknown commands, options or values
+ */
+export function parseCli(argv: string[]): CliArgs {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            suite: { type: "string", short: "s", multiple: true },
+            operation: { type: "string", short: "o", multiple: true },
+            library: { type: "string", short: "l", multiple: true },
+            iterations: { type: "string" },
+            duration: { type: "string" },
+            samples: { type: "string" },
+            warmup: { type: "string" },
+            concurrency: { type: "string" },
+            timeout: { type: "string" },
+            "max-error-rate": { type: "string" },
+            seed: { type: "string" },
+            rate: { type: "string" },
+            "no-sweep": { type: "boolean" },
+            "no-workers": { type: "boolean" },
+            format: { type: "string", short: "f", multiple: true },
+            out: { type: "string" },
+            "dry-run": { type: "boolean" },
+            config: { type: "string", short: "c" },
+            set: { type: "string", multiple: true },
+            baseline: { type: "string" },
+            current: { type: "string" },
+            threshold: { type: "string" },
+            pin: { type: "boolean" },
+            readme: { type: "string" },
+            html: { type: "string" },
+            machine: { type: "string" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+
+    const command = (positionals[0] ?? "run") as Command;
+    if (!COMMANDS.includes(command)) {
+        throw new Error(`Unknown command "${command}" (expected: ${COMMANDS.join(", ")})`);
+    }
+    if (positionals.length > 1 && command !== "report") {
+        throw new Error(`Unexpected argument "${positionals[1]}"`);
+    }
+
+    const overrides: Partial<BenchmarkOptions> = {};
+    if (values.iterations !== undefined) {
+        overrides.iterations = parseCount("--iterations", values.iterations);
+        // A fixed count replaces the suite's time-boxed default
+        overrides.duration = undefined;
+    }
+    if (values.duration !== undefined) overrides.duration = parseCount("--duration", values.duration);
+    if (values.samples !== undefined) overrides.samples = parseCount("--samples", values.samples);
+    if (values.warmup !== undefined) overrides.warmup = parseCount("--warmup", values.warmup, 0);
+    if (values.concurrency !== undefined) {
+        overrides.concurrency = parseCount("--concurrency", values.concurrency);
+    }
+    if (values.timeout !== undefined) overrides.timeout = parseCount("--timeout", values.timeout);
+    if (values["max-error-rate"] !== undefined) {
+        const rate = parsePercent("--max-error-rate", values["max-error-rate"]);
+        if (rate > 100) throw new Error(`--max-error-rate must be at most 100, got "${values["max-error-rate"]}"`);
+        overrides.maxErrorRate = rate / 100;
+    }
+    if (values.seed !== undefined) overrides.seed = parseCount("--seed", values.seed, 0);
+    if (values.rate !== undefined) overrides.rate = parseCount("--rate", values.rate);
+
+    const formats = splitList(values.format);
+    for (const format of formats) {
+        if (!reporterNames().includes(format)) {
+            throw new Error(`Unknown format "${format}" (expected: ${reporterNames().join(", ")})`);
+        }
+    }
+
+    return {
+        command: values.help ? "help" : command,
+        suites: splitList(values.suite),
+        operations: splitList(values.operation),
+        libraries: splitList(values.library),
+        overrides,
+        sweep: !values["no-sweep"],
+        workers: !values["no-workers"],
+        formats: formats.length > 0 ? formats : DEFAULT_REPORTERS,
+        outDir: values.out,
+        dryRun: values["dry-run"] ?? false,
+        config: values.config,
+        set: values.set ?? [],
+        baseline: values.baseline,
+        current: values.current,
+        threshold: values.threshold !== undefined ? parsePercent("--threshold", values.threshold) : undefined,
+        pin: values.pin ?? false,
+        files: positionals.slice(1),
+        readme: values.readme,
+        html: values.html,
+        machine: values.machine,
+    };
+}
+
+/**
+ * Resolves name/glob patterns against the registered suites
+ */
+export function selectSuites(all: Suite[], defaults: string[], args: CliArgs): Suite[] {
+    if (args.suites.length === 0) {
+        return all.filter((s) => defaults.includes(s.name));
+    }
+
+    const selected = all.filter((s) => matchesAny(s.name, args.suites));
+    if (selected.length === 0) {
+        throw new Error(`No suite matches ${args.suites.join(", ")}`);
+    }
+    return selected;
+}
+
+/**
+ * Turns CLI selection and overrides into runSuite options for one suite
+ */
+export function toRunOptions(suite: Suite, args: CliArgs): RunSuiteOptions {
+    const operations =
+        args.operations.length > 0
+            ? suite.operations.filter((op) => matchesAny(op, args.operations))
+            : undefined;
+    const libraries =
+        args.libraries.length > 0
+            ? suite.adapters.map((a) => a.library).filter((lib) => matchesAny(lib, args.libraries))
+            : undefined;
+
+    return {
+        overrides: args.overrides,
+        operations,
+        libraries,
+        sweep: args.sweep,
+        workers: args.workers,
+        outDir: args.outDir,
+    };
+}
+
+/**
+ * Case-insensitive match against exact names or globs (* and ?)
+ */
+export function matchesAny(name: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
+
+/**
+ * Helper: Converts a glob pattern to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split("")
+        .map((c) => (c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+        .join("");
+    return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Helper: Flattens repeated and comma-separated option values
+ */
+function splitList(values: string[] | undefined): string[] {
+    return (values ?? [])
+        .flatMap((v) => v.split(","))
+        .map((v) => v.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Helper: Parses an integer option with a lower bound
+ */
+function parseCount(flag: string, value: string, min = 1): number {
+    const n = Number(value.replace(/_/g, ""));
+    if (!Number.isInteger(n) || n < min) {
+        throw new Error(`${flag} must be an integer >= ${min}, got "${value}"`);
+    }
+    return n;
+}
+
+/**
+ * Helper: Parses a non-negative percentage
+ */
+function parsePercent(flag: string, value: string): number {
+    const n = Number(value.replace(/%$/, ""));
+    if (!Number.isFinite(n) || n < 0) {
+        throw new Error(`${flag} must be a percentage >= 0, got "${value}"`);
+    }
+    return n;
+}
@@ -0,0 +1,602 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import type { BenchmarkOptions } from "./utils";
+import { DEFAULT_WORKLOAD, DISTRIBUTIONS, MAX_VALUE_SIZE, MIN_VALUE_SIZE, type WorkloadSpec } from "./workload";
+
+/**
+ * TLS settings of a network backend; ca/cert/key are file paths
+ */
+export interface TlsConfig {
+    enabled: boolean;
+    ca?: string;
+    cert?: string;
+    key?: string;
+    rejectUnauthorized: boolean;
+}
+
+/**
+ * Run settings; anything left unset falls back to the suite's defaults
+ */
+export interface RunSettings {
+    duration?: number;
+    iterations?: number;
+    samples?: number;
+    warmup?: number;
+    concurrency?: number;
+    // Bun Workers for the suite's multi-worker runs
+    workers?: number;
+    // Per-call timeout (ms) of async operations
+    timeout?: number;
+    // Failed calls (errors + timeouts) tolerated per sample, in percent; 0 stops at the first error
+    maxErrorRate?: number;
+    // Workload generator seed (default 1)
+    seed?: number;
+    // Open loop: calls per second started on a fixed schedule (default: closed loop)
+    rate?: number;
+}
+
+export interface SuiteSettings extends RunSettings {
+    // Run when no suite is selected explicitly
+    enabled?: boolean;
+    // Library the others are compared with (defaults to the suite's)
+    baselineLibrary?: string;
+    // Overrides of the global workload for this suite
+    workload?: Partial<WorkloadSpec>;
+}
+
+export interface BenchConfig {
+    mariadb: {
+        host: string;
+        port: number;
+        user: string;
+        password: string;
+        database: string;
+        tls: TlsConfig;
+    };
+    redis: {
+        url: string;
+        tls: TlsConfig;
+    };
+    memcached: {
+        location: string;
+    };
+    sqlite: {
+        // Database files of the sqlite (and ycsb) and compare suites (recreated on every case)
+        file: string;
+        compareFile: string;
+    };
+    run: RunSettings;
+    // Keyspace, access distribution and payload sizes of the operations
+    workload: WorkloadSpec;
+    baseline: {
+        // Slowdown in percent past which a significant change fails a comparison
+        threshold: number;
+    };
+    // Server availability check before each suite
+    probe: {
+        // Per attempt (ms)
+        timeout: number;
+        // Attempts before a backend's libraries are skipped
+        retries: number;
+    };
+    // Keyed by suite name
+    suites: Record<string, SuiteSettings>;
+}
+
+/**
+ * TLS options in the form node and Bun clients accept (PEM contents, not paths)
+ */
+export interface ClientTlsOptions {
+    ca?: string;
+    cert?: string;
+    key?: string;
+    rejectUnauthorized: boolean;
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/**
+ * Shape of bench.config.ts: any subset of BenchConfig
+ */
+export type UserConfig = DeepPartial<BenchConfig>;
+
+export interface LoadConfigOptions {
+    // Config file (default: $BENCH_CONFIG or ./bench.config.ts when present)
+    path?: string;
+    // "dotted.key=value" overrides applied last
+    set?: string[];
+}
+
+export const DEFAULT_CONFIG_FILE = "bench.config.ts";
+
+// Optional TLS keys absent from the defaults
+const TLS_FILES = ["ca", "cert", "key"] as const;
+
+// Upper bounds of the workload settings (seeding takes too long past them)
+const MAX_KEYSPACE = 10_000_000;
+const MAX_ROW_WIDTH = 64;
+
+export const DEFAULT_CONFIG: BenchConfig = {
+    mariadb: {
+        host: "localhost",
+        port: 3306,
+        user: "root",
+        password: "",
+        database: "benchmark_db",
+        tls: { enabled: false, rejectUnauthorized: true },
+    },
+    redis: { url: "redis://localhost:6379", tls: { enabled: false, rejectUnauthorized: true } },
+    memcached: { location: "localhost:11211" },
+    sqlite: { file: "bench_bun.db", compareFile: "bench_bun_compare.db" },
+    run: {},
+    workload: DEFAULT_WORKLOAD,
+    baseline: { threshold: 5 },
+    probe: { timeout: 2_000, retries: 1 },
+    suites: {
+        sqlite: { enabled: true },
+        mariadb: { enabled: true },
+        redis: { enabled: true },
+        compare: { enabled: false },
+        ycsb: { enabled: false },
+    },
+};
+
+// Environment variables and the config keys they set
+const ENV_KEYS: Record<string, string> = {
+    MARIADB_HOST: "mariadb.host",
+    MARIADB_PORT: "mariadb.port",
+    MARIADB_USER: "mariadb.user",
+    MARIADB_PASSWORD: "mariadb.password",
+    MARIADB_DATABASE: "mariadb.database",
+    MARIADB_TLS: "mariadb.tls.enabled",
+    MARIADB_TLS_CA: "mariadb.tls.ca",
+    MARIADB_TLS_CERT: "mariadb.tls.cert",
+    MARIADB_TLS_KEY: "mariadb.tls.key",
+    MARIADB_TLS_REJECT_UNAUTHORIZED: "mariadb.tls.rejectUnauthorized",
+    REDIS_URL: "redis.url",
+    REDIS_TLS: "redis.tls.enabled",
+    REDIS_TLS_CA: "redis.tls.ca",
+    REDIS_TLS_CERT: "redis.tls.cert",
+    REDIS_TLS_KEY: "redis.tls.key",
+    REDIS_TLS_REJECT_UNAUTHORIZED: "redis.tls.rejectUnauthorized",
+    MEMCACHED_LOCATION: "memcached.location",
+    SQLITE_FILE: "sqlite.file",
+    SQLITE_COMPARE_FILE: "sqlite.compareFile",
+    BENCH_DURATION: "run.duration",
+    BENCH_ITERATIONS: "run.iterations",
+    BENCH_SAMPLES: "run.samples",
+    BENCH_WARMUP: "run.warmup",
+    BENCH_CONCURRENCY: "run.concurrency",
+    BENCH_WORKERS: "run.workers",
+    BENCH_TIMEOUT: "run.timeout",
+    BENCH_MAX_ERROR_RATE: "run.maxErrorRate",
+    BENCH_SEED: "run.seed",
+    BENCH_RATE: "run.rate",
+    BENCH_KEYSPACE: "workload.keyspace",
+    BENCH_DISTRIBUTION: "workload.distribution",
+    BENCH_VALUE_SIZE: "workload.valueSize",
+    BENCH_ROW_WIDTH: "workload.rowWidth",
+    BENCH_REGRESSION_THRESHOLD: "baseline.threshold",
+    BENCH_PROBE_TIMEOUT: "probe.timeout",
+    BENCH_PROBE_RETRIES: "probe.retries",
+};
+
+let current: BenchConfig | null = null;
+
+/**
+ * Identity helper that types bench.config.ts
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+    return config;
+}
+
+/**
+ * Loads defaults < config file < environment variables < --set overrides,
+ * validates the result and makes it the active config
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<BenchConfig> {
+    const config = structuredClone(DEFAULT_CONFIG) as unknown as Record<string, unknown>;
+    const explicit = options.path ?? process.env.BENCH_CONFIG;
+    const path = resolve(explicit ?? DEFAULT_CONFIG_FILE);
+
+    if (existsSync(path)) {
+        const module = await import(pathToFileURL(path).href);
+        const fileConfig = module.default ?? module.config;
+        if (!isPlainObject(fileConfig)) {
+            throw new Error(`Invalid config: ${path} must export a config object as default`);
+        }
+        merge(config, fileConfig);
+    } else if (explicit) {
+        throw new Error(`Config file not found: ${path}`);
+    }
+
+    for (const [name, key] of Object.entries(ENV_KEYS)) {
+        const value = process.env[name];
+        if (value !== undefined && value !== "") setPath(config, key, parseValue(key, value));
+    }
+    // BENCH_SUITES=sqlite,redis replaces the enabled flags
+    if (process.env.BENCH_SUITES) {
+        const enabled = process.env.BENCH_SUITES.split(",").map((s) => s.trim());
+        const suites = config.suites as Record<string, SuiteSettings>;
+        for (const name of new Set([...Object.keys(suites), ...enabled])) {
+            setPath(config, `suites.${name}.enabled`, enabled.includes(name));
+        }
+    }
+
+    for (const assignment of options.set ?? []) {
+        const eq = assignment.indexOf("=");
+        if (eq <= 0) {
+            throw new Error(`Invalid --set "${assignment}" (expected key=value)`);
+        }
+        const key = assignment.slice(0, eq).trim();
+        setPath(config, key, parseValue(key, assignment.slice(eq + 1).trim()));
+    }
+
+    current = validateConfig(config);
+    return current;
+}
+
+/**
+ * The active config; throws when loadConfig() hasn't run yet
+ */
+export function getConfig(): BenchConfig {
+    if (!current) {
+        throw new Error("Config not loaded (call loadConfig() first)");
+    }
+    return current;
+}
+
+/**
+ * Returns the active config, loading the default one on first use
+ */
+export async function ensureConfig(): Promise<BenchConfig> {
+    return current ?? loadConfig();
+}
+
+/**
+ * Activates an already validated config (e.g. one passed to a worker)
+ */
+export function setConfig(config: BenchConfig) {
+    current = config;
+}
+
+/**
+ * Names of the suites enabled for a default run
+ */
+export function enabledSuites(config: BenchConfig): string[] {
+    return Object.entries(config.suites)
+        .filter(([, settings]) => settings.enabled)
+        .map(([name]) => name);
+}
+
+/**
+ * Benchmark options from the global and per-suite run settings, in that order
+ */
+export function configuredOptions(config: BenchConfig, suite: string): Partial<BenchmarkOptions> {
+    const options: Partial<BenchmarkOptions> = {};
+    for (const settings of [config.run, config.suites[suite] ?? {}]) {
+        const { iterations, duration, samples, warmup, concurrency, timeout, maxErrorRate, seed, rate } = settings;
+        if (iterations !== undefined) {
+            options.iterations = iterations;
+            // A fixed count replaces the suite's time-boxed default
+            if (duration === undefined) options.duration = undefined;
+        }
+        if (duration !== undefined) options.duration = duration;
+        if (samples !== undefined) options.samples = samples;
+        if (warmup !== undefined) options.warmup = warmup;
+        if (concurrency !== undefined) options.concurrency = concurrency;
+        if (timeout !== undefined) options.timeout = timeout;
+        if (maxErrorRate !== undefined) options.maxErrorRate = maxErrorRate / 100;
+        if (seed !== undefined) options.seed = seed;
+        if (rate !== undefined) options.rate = rate;
+    }
+    return options;
+}
+
+/**
+ * Workload of a suite: the global workload, then an operation's defaults, then the suite's overrides
+ */
+export function workloadSpec(
+    config: BenchConfig,
+    suite: string,
+    defaults: Partial<WorkloadSpec> = {}
+): WorkloadSpec {
+    return { ...config.workload, ...defaults, ...config.suites[suite]?.workload };
+}
+
+/**
+ * Worker count of a suite's multi-worker runs, if configured
+ */
+export function configuredWorkers(config: BenchConfig, suite: string): number | undefined {
+    return config.suites[suite]?.workers ?? config.run.workers;
+}
+
+/**
+ * Client TLS options with certificate files read, or false when disabled
+ */
+export function tlsOptions(tls: TlsConfig): ClientTlsOptions | false {
+    if (!tls.enabled) {
+        return false;
+    }
+    return {
+        ca: tls.ca ? readFileSync(tls.ca, "utf8") : undefined,
+        cert: tls.cert ? readFileSync(tls.cert, "utf8") : undefined,
+        key: tls.key ? readFileSync(tls.key, "utf8") : undefined,
+        rejectUnauthorized: tls.rejectUnauthorized,
+    };
+}
+
+/**
+ * Checks types, ranges and unknown keys; throws one error listing every problem
+ */
+export function validateConfig(raw: Record<string, unknown>): BenchConfig {
+    const problems: string[] = [];
+    checkKeys(raw, DEFAULT_CONFIG as unknown as Record<string, unknown>, "", problems);
+
+    const config = raw as unknown as BenchConfig;
+    const { mariadb, redis, memcached, sqlite } = config;
+
+    checkString(problems, "mariadb.host", mariadb.host);
+    checkInteger(problems, "mariadb.port", mariadb.port, 1, 65535);
+    checkString(problems, "mariadb.user", mariadb.user);
+    if (typeof mariadb.password !== "string") problems.push("mariadb.password must be a string");
+    if (typeof mariadb.database !== "string" || !/^\w+$/.test(mariadb.database)) {
+        problems.push("mariadb.database must be a plain identifier (letters, digits, _)");
+    }
+    checkTls(problems, "mariadb.tls", mariadb.tls);
+
+    if (typeof redis.url !== "string" || !/^rediss?:\/\//.test(redis.url)) {
+        problems.push(`redis.url must start with redis:// or rediss://, got ${JSON.stringify(redis.url)}`);
+    }
+    checkTls(problems, "redis.tls", redis.tls);
+
+    if (typeof memcached.location !== "string" || !/^[^:\s]+:\d+$/.test(memcached.location)) {
+        problems.push(`memcached.location must be host:port, got ${JSON.stringify(memcached.location)}`);
+    }
+
+    checkString(problems, "sqlite.file", sqlite.file);
+    checkString(problems, "sqlite.compareFile", sqlite.compareFile);
+    if (sqlite.file === sqlite.compareFile) {
+        problems.push("sqlite.file and sqlite.compareFile must differ");
+    }
+
+    checkRunSettings(problems, "run", { ...config.run });
+    checkWorkload(problems, "workload", { ...config.workload });
+    const { threshold } = config.baseline;
+    if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold < 0) {
+        problems.push(`baseline.threshold must be a percentage >= 0, got ${JSON.stringify(threshold)}`);
+    }
+    checkInteger(problems, "probe.timeout", config.probe.timeout, 1);
+    checkInteger(problems, "probe.retries", config.probe.retries, 1);
+    if (!isPlainObject(config.suites)) {
+        problems.push("suites must be an object keyed by suite name");
+    } else {
+        for (const [name, settings] of Object.entries(config.suites)) {
+            if (!isPlainObject(settings)) {
+                problems.push(`suites.${name} must be an object`);
+                continue;
+            }
+            const { enabled, baselineLibrary, workload, ...run } = settings;
+            if (enabled !== undefined && typeof enabled !== "boolean") {
+                problems.push(`suites.${name}.enabled must be a boolean`);
+            }
+            if (baselineLibrary !== undefined) {
+                checkString(problems, `suites.${name}.baselineLibrary`, baselineLibrary);
+            }
+            checkRunSettings(problems, `suites.${name}`, run);
+            if (workload !== undefined) {
+                if (!isPlainObject(workload)) {
+                    problems.push(`suites.${name}.workload must be an object`);
+                } else {
+                    checkWorkload(problems, `suites.${name}.workload`, workload);
+                }
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid config:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    }
+    return config;
+}
+
+/**
+ * Helper: Deep-merges plain objects from source into target
+ */
+function merge(target: Record<string, unknown>, source: Record<string, unknown>) {
+    for (const [key, value] of Object.entries(source)) {
+        if (value === undefined) continue;
+        const existing = target[key];
+        if (isPlainObject(existing) && isPlainObject(value)) {
+            merge(existing, value);
+        } else {
+            target[key] = value;
+        }
+    }
+}
+
+/**
+ * Helper: Sets a dotted key, creating intermediate objects
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+    const keys = path.split(".");
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+        if (!isPlainObject(node[key])) node[key] = {};
+        node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]!] = value;
+}
+
+/**
+ * Helper: Converts an env/CLI string to the type the key expects
+ */
+function parseValue(path: string, value: string): unknown {
+    const keys = path.split(".");
+    let reference: unknown = DEFAULT_CONFIG;
+    for (const key of keys) {
+        reference = isPlainObject(reference) ? reference[key] : undefined;
+    }
+    const last = keys[keys.length - 1];
+    const kind =
+        reference !== undefined
+            ? typeof reference
+            : last === "enabled"
+              ? "boolean"
+              : last === "baselineLibrary"
+                ? "string"
+                : keys[0] === "run" || keys[0] === "suites" || keys[0] === "workload"
+                  ? "number"
+                  : "string";
+
+    if (kind === "boolean") {
+        if (/^(true|yes|on|1)$/i.test(value)) return true;
+        if (/^(false|no|off|0)$/i.test(value)) return false;
+    } else if (kind === "number") {
+        const n = Number(value.replace(/_/g, ""));
+        if (value.trim() !== "" && Number.isFinite(n)) return n;
+    }
+    // Left as a string; validation reports the type mismatch
+    return value;
+}
+
+/**
+ * Helper: Reports keys that don't exist in the reference shape
+ */
+function checkKeys(
+    value: Record<string, unknown>,
+    reference: Record<string, unknown>,
+    prefix: string,
+    problems: string[]
+) {
+    for (const [key, child] of Object.entries(value)) {
+        const path = `${prefix}${key}`;
+        const optional = prefix.endsWith("tls.") && (TLS_FILES as readonly string[]).includes(key);
+        if (!(key in reference) && !optional) {
+            problems.push(`unknown key "${path}"`);
+            continue;
+        }
+        // Suite entries are keyed by name and checked separately
+        if (path === "suites" || path === "run" || path === "workload") continue;
+        const ref = reference[key];
+        if (isPlainObject(ref)) {
+            if (isPlainObject(child)) checkKeys(child, ref, `${path}.`, problems);
+            else problems.push(`${path} must be an object`);
+        }
+    }
+}
+
+/**
+ * Helper: Validates TLS settings; certificate files must exist
+ */
+function checkTls(problems: string[], path: string, tls: TlsConfig) {
+    if (typeof tls.enabled !== "boolean") problems.push(`${path}.enabled must be a boolean`);
+    if (typeof tls.rejectUnauthorized !== "boolean") {
+        problems.push(`${path}.rejectUnauthorized must be a boolean`);
+    }
+    for (const file of TLS_FILES) {
+        const value = tls[file];
+        if (value === undefined) continue;
+        if (typeof value !== "string") problems.push(`${path}.${file} must be a file path`);
+        else if (!existsSync(value)) problems.push(`${path}.${file}: file not found: ${value}`);
+    }
+    if ((tls.cert === undefined) !== (tls.key === undefined)) {
+        problems.push(`${path}.cert and ${path}.key must be set together`);
+    }
+}
+
+/**
+ * Helper: Validates run settings (positive integers; warmup may be 0)
+ */
+function checkRunSettings(problems: string[], path: string, settings: Record<string, unknown>) {
+    const allowed = [
+        "duration", "iterations", "samples", "warmup", "concurrency", "workers", "timeout", "maxErrorRate",
+        "seed", "rate",
+    ];
+    for (const [key, value] of Object.entries(settings)) {
+        if (!allowed.includes(key)) {
+            problems.push(`unknown key "${path}.${key}"`);
+        } else if (key === "maxErrorRate") {
+            if (value !== undefined && (typeof value !== "number" || !(value >= 0 && value <= 100))) {
+                problems.push(`${path}.maxErrorRate must be a percentage between 0 and 100, got ${JSON.stringify(value)}`);
+            }
+        } else if (value !== undefined) {
+            const [min, max] = key === "seed" ? [0, 0xffffffff] : [key === "warmup" ? 0 : 1, Infinity];
+            checkInteger(problems, `${path}.${key}`, value, min, max);
+        }
+    }
+}
+
+/**
+ * Helper: Validates workload settings (a suite's may be partial)
+ */
+function checkWorkload(problems: string[], path: string, settings: Record<string, unknown>) {
+    for (const [key, value] of Object.entries(settings)) {
+        if (value === undefined) continue;
+        switch (key) {
+            case "keyspace":
+                checkInteger(problems, `${path}.keyspace`, value, 1, MAX_KEYSPACE);
+                break;
+            case "distribution":
+                if (!DISTRIBUTIONS.includes(value as WorkloadSpec["distribution"])) {
+                    problems.push(`${path}.distribution must be one of ${DISTRIBUTIONS.join(", ")}, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case "zipfianTheta":
+                if (typeof value !== "number" || !(value > 0 && value < 1)) {
+                    problems.push(`${path}.zipfianTheta must be a number between 0 and 1 (exclusive), got ${JSON.stringify(value)}`);
+                }
+                break;
+            case "hotspotKeys":
+            case "hotspotOps":
+                if (typeof value !== "number" || !(value > 0 && value <= 1)) {
+                    problems.push(`${path}.${key} must be a fraction in (0, 1], got ${JSON.stringify(value)}`);
+                }
+                break;
+            case "valueSize":
+                if (isPlainObject(value)) {
+                    checkKeys(value, { min: 0, max: 0 }, `${path}.valueSize.`, problems);
+                    checkInteger(problems, `${path}.valueSize.min`, value.min, MIN_VALUE_SIZE, MAX_VALUE_SIZE);
+                    checkInteger(problems, `${path}.valueSize.max`, value.max, MIN_VALUE_SIZE, MAX_VALUE_SIZE);
+                    if (typeof value.min === "number" && typeof value.max === "number" && value.min > value.max) {
+                        problems.push(`${path}.valueSize.min must not exceed ${path}.valueSize.max`);
+                    }
+                } else {
+                    checkInteger(problems, `${path}.valueSize`, value, MIN_VALUE_SIZE, MAX_VALUE_SIZE);
+                }
+                break;
+            case "rowWidth":
+                checkInteger(problems, `${path}.rowWidth`, value, 0, MAX_ROW_WIDTH);
+                break;
+            default:
+                problems.push(`unknown key "${path}.${key}"`);
+        }
+    }
+}
+
+/**
+ * Helper: Validates a non-empty string
+ */
+function checkString(problems: string[], path: string, value: unknown) {
+    if (typeof value !== "string" || value.trim() === "") {
+        problems.push(`${path} must be a non-empty string`);
+    }
+}
+
+/**
+ * Helper: Validates an integer within bounds
+ */
+function checkInteger(problems: string[], path: string, value: unknown, min: number, max = Infinity) {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+        const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+        problems.push(`${path} must be an integer ${range}, got ${JSON.stringify(value)}`);
+    }
+}
+
+/**
+ * Helper: True for plain (non-array) objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
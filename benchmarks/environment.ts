@@ -0,0 +1,150 @@
+import { readFileSync } from "fs";
+import os from "os";
+import path from "path";
+import mariadb from "mariadb";
+import Memcached from "memcached";
+import { mariadbConfig } from "./adapters/mariadb/shared";
+import { connectBunRedis, memcachedLocation } from "./adapters/redis/shared";
+
+/**
+ * Where and with what a run was measured; saved with every result file
+ */
+export interface Environment {
+    bun: { version: string; revision: string };
+    os: { platform: string; release: string; version: string; arch: string };
+    cpu: { model: string; cores: number; speedMHz: number };
+    // Bytes
+    memory: { total: number };
+    git: { commit: string; branch: string; dirty: boolean } | null;
+    // Resolved client package versions (null when not installed)
+    packages: Record<string, string | null>;
+    // Versions reported by the servers the suite talks to (null when unreachable)
+    servers: Partial<Record<Backend, string | null>>;
+}
+
+export type Backend = "mariadb" | "redis" | "memcached";
+
+const PACKAGES = ["mariadb", "mysql2", "redis", "memcached", "sql.js", "better-sqlite3"];
+const ROOT = path.resolve(import.meta.dir, "..");
+/**
+ * Collects runtime, machine, repository and package details;
+ * server versions come from the availability check (see probeBackend)
+ */
+export function collectEnvironment(servers: Environment["servers"] = {}): Environment {
+    const cpus = os.cpus();
+    return {
+        bun: { version: Bun.version, revision: Bun.revision },
+        os: { platform: os.platform(), release: os.release(), version: os.version(), arch: os.arch() },
+        cpu: { model: cpus[0]?.model.trim() ?? "unknown", cores: cpus.length, speedMHz: cpus[0]?.speed ?? 0 },
+        memory: { total: os.totalmem() },
+        git: gitInfo(),
+        packages: Object.fromEntries(PACKAGES.map((name) => [name, packageVersion(name)])),
+        servers,
+    };
+}
+
+/**
+ * One-line description, e.g. "Bun v1.2.23 (abc1234) · Darwin 24.1.0 arm64 · Apple M4 × 10 · 16 GB"
+ */
+export function describeEnvironment(env: Environment): string {
+    const memory = `${Math.round(env.memory.total / 1024 ** 3)} GB`;
+    return [
+        `Bun v${env.bun.version} (${env.bun.revision.slice(0, 7)})`,
+        `${env.os.platform} ${env.os.release} ${env.os.arch}`,
+        `${env.cpu.model} × ${env.cpu.cores}`,
+        memory,
+    ].join(" · ");
+}
+
+/**
+ * Connects to a backend server and returns its version; rejects when it
+ * can't be reached or doesn't answer within the timeout (ms)
+ */
+export function probeBackend(backend: Backend, timeout: number): Promise<string> {
+    return withTimeout(PROBES[backend](timeout), timeout);
+}
+
+// Asks each server for its version
+const PROBES: Record<Backend, (timeout: number) => Promise<string>> = {
+    async mariadb(timeout) {
+        const { database, ...connection } = mariadbConfig();
+        const conn = await mariadb.createConnection({ ...connection, connectTimeout: timeout });
+        try {
+            const rows = await conn.query("SELECT VERSION() AS version");
+            return String(rows[0].version);
+        } finally {
+            await conn.end();
+        }
+    },
+
+    async redis(timeout) {
+        const client = await connectBunRedis({
+            connectionTimeout: timeout,
+            autoReconnect: false,
+            enableOfflineQueue: false,
+        });
+        try {
+            const info: string = await client.send("INFO", ["server"]);
+            const version = /^redis_version:(.+)$/m.exec(info)?.[1]?.trim();
+            if (!version) throw new Error("INFO server has no redis_version");
+            return version;
+        } finally {
+            client.close();
+        }
+    },
+
+    memcached(timeout) {
+        return new Promise((resolve, reject) => {
+            const client = new Memcached(memcachedLocation(), { timeout, retries: 0 });
+            client.stats((err: Error | undefined, stats: { version?: string }[]) => {
+                client.end();
+                if (err || !stats[0]?.version) reject(err ?? new Error("stats has no version"));
+                else resolve(stats[0].version);
+            });
+        });
+    },
+};
+
+/**
+ * Helper: Commit, branch and uncommitted-changes flag of the repository
+ */
+function gitInfo(): Environment["git"] {
+    const git = (...args: string[]) => {
+        const result = Bun.spawnSync(["git", ...args], { cwd: ROOT, stderr: "ignore" });
+        if (result.exitCode !== 0) throw new Error(`git ${args.join(" ")} failed`);
+        return result.stdout.toString().trim();
+    };
+
+    try {
+        return {
+            commit: git("rev-parse", "HEAD"),
+            branch: git("rev-parse", "--abbrev-ref", "HEAD"),
+            dirty: git("status", "--porcelain").length > 0,
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Helper: Installed version of a package, read from its package.json
+ */
+function packageVersion(name: string): string | null {
+    try {
+        const pkg = JSON.parse(readFileSync(path.join(ROOT, "node_modules", name, "package.json"), "utf8"));
+        return typeof pkg.version === "string" ? pkg.version : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Helper: Rejects when the promise doesn't settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${ms} ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
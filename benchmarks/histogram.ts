@@ -0,0 +1,200 @@
+/**
+ * HDR-style latency histogram.
+ *
+ * Values are recorded in nanoseconds into log-linear buckets: every power of
+ * two is split into a fixed number of linear sub-buckets, so the relative
+ * error stays below 1 / 2^(SUB_BUCKET_BITS - 1) no matter the magnitude.
+ */
+
+const SUB_BUCKET_BITS = 8;
+const SUB_BUCKET_COUNT = 2 ** SUB_BUCKET_BITS;
+const SUB_BUCKET_HALF = SUB_BUCKET_COUNT / 2;
+
+export interface Histogram {
+    counts: Map<number, number>;
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    m2: number;
+}
+
+export interface HistogramSnapshot {
+    unit: "ns";
+    subBucketBits: number;
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    m2: number;
+    buckets: [index: number, count: number][];
+}
+
+export interface LatencyStats {
+    min: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    p999: number;
+    max: number;
+    mean: number;
+    stddev: number;
+}
+
+export function createHistogram(): Histogram {
+    return {
+        counts: new Map(),
+        count: 0,
+        min: Infinity,
+        max: 0,
+        mean: 0,
+        m2: 0,
+    };
+}
+
+/**
+ * Records a latency value given in milliseconds (count times)
+ */
+export function recordValue(histogram: Histogram, ms: number, count = 1) {
+    const ns = Math.max(0, Math.round(ms * 1e6));
+    const index = bucketIndex(ns);
+
+    histogram.counts.set(index, (histogram.counts.get(index) ?? 0) + count);
+
+    // Welford's online update, generalized to `count` identical values
+    const total = histogram.count + count;
+    const delta = ns - histogram.mean;
+    histogram.mean += (delta * count) / total;
+    histogram.m2 += (delta * delta * histogram.count * count) / total;
+    histogram.count = total;
+
+    if (ns < histogram.min) histogram.min = ns;
+    if (ns > histogram.max) histogram.max = ns;
+}
+
+/**
+ * Adds all values of source into target
+ */
+export function mergeHistograms(target: Histogram, source: Histogram) {
+    if (source.count === 0) return target;
+
+    for (const [index, count] of source.counts) {
+        target.counts.set(index, (target.counts.get(index) ?? 0) + count);
+    }
+
+    // Chan et al. parallel variance combination
+    const total = target.count + source.count;
+    const delta = source.mean - target.mean;
+    target.m2 += source.m2 + (delta * delta * target.count * source.count) / total;
+    target.mean += (delta * source.count) / total;
+    target.count = total;
+
+    target.min = Math.min(target.min, source.min);
+    target.max = Math.max(target.max, source.max);
+
+    return target;
+}
+
+/**
+ * Returns the value (ms) below which the given percentage of samples fall
+ */
+export function valueAtPercentile(histogram: Histogram, percentile: number): number {
+    if (histogram.count === 0) return 0;
+
+    const target = Math.max(1, Math.ceil((percentile / 100) * histogram.count));
+    const indices = [...histogram.counts.keys()].sort((a, b) => a - b);
+
+    let seen = 0;
+    for (const index of indices) {
+        seen += histogram.counts.get(index) ?? 0;
+        if (seen >= target) {
+            const ns = Math.min(Math.max(bucketMidpoint(index), histogram.min), histogram.max);
+            return ns / 1e6;
+        }
+    }
+
+    return histogram.max / 1e6;
+}
+
+/**
+ * Summarizes histogram as percentiles in milliseconds
+ */
+export function summarizeLatency(histogram: Histogram): LatencyStats {
+    const empty = histogram.count === 0;
+    const variance = histogram.count > 1 ? histogram.m2 / (histogram.count - 1) : 0;
+
+    return {
+        min: empty ? 0 : histogram.min / 1e6,
+        p50: valueAtPercentile(histogram, 50),
+        p90: valueAtPercentile(histogram, 90),
+        p99: valueAtPercentile(histogram, 99),
+        p999: valueAtPercentile(histogram, 99.9),
+        max: histogram.max / 1e6,
+        mean: histogram.mean / 1e6,
+        stddev: Math.sqrt(variance) / 1e6,
+    };
+}
+
+/**
+ * Converts histogram to a JSON-serializable form
+ */
+export function toSnapshot(histogram: Histogram): HistogramSnapshot {
+    return {
+        unit: "ns",
+        subBucketBits: SUB_BUCKET_BITS,
+        count: histogram.count,
+        min: histogram.count === 0 ? 0 : histogram.min,
+        max: histogram.max,
+        mean: histogram.mean,
+        m2: histogram.m2,
+        buckets: [...histogram.counts.entries()].sort((a, b) => a[0] - b[0]),
+    };
+}
+
+/**
+ * Restores histogram from a snapshot (e.g. loaded from a results file)
+ */
+export function fromSnapshot(snapshot: HistogramSnapshot): Histogram {
+    if (snapshot.subBucketBits !== SUB_BUCKET_BITS) {
+        throw new Error(
+            `Histogram precision mismatch: expected ${SUB_BUCKET_BITS} sub-bucket bits, got ${snapshot.subBucketBits}`
+        );
+    }
+
+    return {
+        counts: new Map(snapshot.buckets),
+        count: snapshot.count,
+        min: snapshot.count === 0 ? Infinity : snapshot.min,
+        max: snapshot.max,
+        mean: snapshot.mean,
+        m2: snapshot.m2,
+    };
+}
+
+/**
+ * Helper: Maps a nanosecond value to its bucket index
+ */
+function bucketIndex(ns: number): number {
+    if (ns < SUB_BUCKET_COUNT) return ns;
+
+    let shift = Math.floor(Math.log2(ns)) - SUB_BUCKET_BITS + 1;
+
+    // log2 may round across a power of two for large values
+    while (Math.floor(ns / 2 ** shift) >= SUB_BUCKET_COUNT) shift++;
+    while (shift > 1 && Math.floor(ns / 2 ** shift) < SUB_BUCKET_HALF) shift--;
+
+    return shift * SUB_BUCKET_HALF + Math.floor(ns / 2 ** shift);
+}
+
+/**
+ * Helper: Returns the middle nanosecond value covered by a bucket
+ */
+function bucketMidpoint(index: number): number {
+    if (index < SUB_BUCKET_COUNT) return index;
+
+    const shift = Math.floor(index / SUB_BUCKET_HALF) - 1;
+    const subBucket = index - shift * SUB_BUCKET_HALF;
+    const width = 2 ** shift;
+
+    return subBucket * width + width / 2;
+}
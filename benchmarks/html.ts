@@ -0,0 +1,327 @@
+import { fromSnapshot, valueAtPercentile } from "./histogram";
+import { caseLabel, groupBy, writeResultsFile, type BenchmarkResult } from "./utils";
+
+/**
+ * One suite's results on the page
+ */
+export interface HtmlSection {
+    title: string;
+    results: BenchmarkResult[];
+    // Libraries in display order (defaults to first appearance)
+    libraries?: string[];
+}
+
+interface Series {
+    name: string;
+    color: string;
+    points: { x: number; y: number; low?: number; high?: number }[];
+}
+
+interface ChartOptions {
+    title: string;
+    yLabel: string;
+    categories: string[];
+    series: Series[];
+    logScale?: boolean;
+}
+
+const WIDTH = 760;
+const HEIGHT = 320;
+const MARGIN = { top: 36, right: 20, bottom: 56, left: 72 };
+const COLORS = ["#f472b6", "#60a5fa", "#34d399", "#fbbf24", "#a78bfa", "#f87171", "#22d3ee", "#a3e635"];
+
+// Percentiles of the latency distribution plot
+const PERCENTILES = [0, 25, 50, 75, 90, 95, 99, 99.5, 99.9, 99.99, 100];
+
+/**
+ * Renders a standalone HTML page (inline CSS and SVG, no external assets)
+ */
+export function renderHtml(sections: HtmlSection[], title = "Benchmark Report"): string {
+    const body = sections.map(renderSection).join("\n");
+    const generated = new Date().toISOString();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 1000px; padding: 24px; color: #1f2937; }
+h1 { margin-bottom: 0; }
+h2 { margin-top: 48px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+.meta { color: #6b7280; }
+table { border-collapse: collapse; margin: 16px 0; font-variant-numeric: tabular-nums; }
+th, td { border: 1px solid #e5e7eb; padding: 4px 10px; text-align: right; }
+th:first-child, td:first-child, th:nth-child(2), td:nth-child(2) { text-align: left; }
+th { background: #f9fafb; }
+svg { display: block; margin: 16px 0; max-width: 100%; height: auto; }
+svg text { font: 12px system-ui, sans-serif; fill: #374151; }
+.axis line, .axis path { stroke: #9ca3af; }
+.grid line { stroke: #f3f4f6; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${escapeHtml(generated)}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes the HTML report next to the JSON results; returns its path
+ */
+export async function saveHtml(
+    sections: HtmlSection[],
+    filename: string,
+    resultsDir?: string,
+    title?: string
+): Promise<string> {
+    const filepath = await writeResultsFile(filename, "html", renderHtml(sections, title), resultsDir);
+    console.log(`\n✓ HTML report saved: ${filepath}`);
+    return filepath;
+}
+
+/**
+ * Helper: Table, throughput bars, latency distributions and concurrency curves of one suite
+ */
+function renderSection({ title, results, libraries: order }: HtmlSection): string {
+    const libraries = order ?? [...new Set(results.map((r) => r.library))];
+    const color = (lib: string) => COLORS[libraries.indexOf(lib) % COLORS.length]!;
+    // Concurrency sweeps get their own curves; matrix and worker cases share the bar chart
+    const swept = results.filter((r) => r.sweep);
+    const cases = results.filter((r) => !swept.includes(r));
+
+    const parts = [`<h2>${escapeHtml(title)}</h2>`, renderTable(results)];
+
+    if (cases.length > 0) {
+        const labels = Object.keys(groupBy(cases, caseLabel));
+        parts.push(
+            renderChart({
+                title: "Throughput (ops/sec, ±95% CI)",
+                yLabel: "ops/sec",
+                categories: labels,
+                series: libraries.map((lib) => ({
+                    name: lib,
+                    color: color(lib),
+                    points: labels.flatMap((label, x) => {
+                        const r = cases.find((c) => c.library === lib && caseLabel(c) === label);
+                        if (!r) return [];
+                        return [{ x, y: r.opsPerSecond, low: r.samples?.ci95.lower, high: r.samples?.ci95.upper }];
+                    }),
+                })),
+            }, "bar")
+        );
+
+        for (const [label, group] of Object.entries(groupBy(cases, caseLabel))) {
+            parts.push(
+                renderChart({
+                    title: `${label} - latency distribution (ms, log scale)`,
+                    yLabel: "ms",
+                    categories: PERCENTILES.map((p) => `p${p}`),
+                    logScale: true,
+                    series: group.map((r) => ({
+                        name: r.library,
+                        color: color(r.library),
+                        points: percentileCurve(r).map((y, x) => ({ x, y })),
+                    })),
+                }, "line")
+            );
+        }
+    }
+
+    for (const [operation, group] of Object.entries(groupBy(swept, (r) => r.operation))) {
+        const levels = [...new Set(group.map((r) => r.concurrency!))].sort((a, b) => a - b);
+        const curve = (value: (r: BenchmarkResult) => number) =>
+            libraries
+                .filter((lib) => group.some((r) => r.library === lib))
+                .map((lib) => ({
+                    name: lib,
+                    color: color(lib),
+                    points: levels.flatMap((level, x) => {
+                        const r = group.find((g) => g.library === lib && g.concurrency === level);
+                        return r ? [{ x, y: value(r) }] : [];
+                    }),
+                }));
+
+        const categories = levels.map(String);
+        parts.push(
+            renderChart(
+                { title: `${operation} - throughput vs concurrency`, yLabel: "ops/sec", categories, series: curve((r) => r.opsPerSecond) },
+                "line"
+            ),
+            renderChart(
+                { title: `${operation} - p99 latency vs concurrency (ms)`, yLabel: "ms", categories, series: curve((r) => r.latency.p99) },
+                "line"
+            )
+        );
+    }
+
+    return parts.join("\n");
+}
+
+/**
+ * Helper: Key figures per case as an HTML table
+ */
+function renderTable(results: BenchmarkResult[]): string {
+    const head = ["Operation", "Library", "Ops/sec", "±95% CI", "p50 (ms)", "p99 (ms)", "p99.9 (ms)", "Ops/CPU-ms"];
+    const rows = results.map((r) =>
+        [
+            caseLabel(r),
+            r.library,
+            r.opsPerSecond.toFixed(0),
+            r.samples ? ((r.samples.ci95.upper - r.samples.ci95.lower) / 2).toFixed(0) : "-",
+            r.latency.p50.toFixed(4),
+            r.latency.p99.toFixed(4),
+            r.latency.p999.toFixed(4),
+            r.resources.opsPerCpuMs.toFixed(1),
+        ]
+            .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+            .join("")
+    );
+
+    return `<table>
+<tr>${head.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr>
+${rows.map((row) => `<tr>${row}</tr>`).join("\n")}
+</table>`;
+}
+
+/**
+ * Helper: SVG bar (grouped) or line chart with axes, grid and legend
+ */
+function renderChart(options: ChartOptions, kind: "bar" | "line"): string {
+    const { categories, series, logScale } = options;
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+    const values = series.flatMap((s) => s.points.flatMap((p) => [p.y, p.high ?? p.y]));
+    const positive = values.filter((v) => v > 0);
+    if (positive.length === 0) return "";
+
+    const ticks = logScale ? logTicks(Math.min(...positive), Math.max(...positive)) : linearTicks(Math.max(...values));
+    const top = ticks[ticks.length - 1]!;
+    const bottom = logScale ? ticks[0]! : 0;
+    const y = (v: number) => {
+        const ratio = logScale
+            ? (Math.log10(Math.max(v, bottom)) - Math.log10(bottom)) / (Math.log10(top) - Math.log10(bottom) || 1)
+            : v / top;
+        return MARGIN.top + plotHeight * (1 - ratio);
+    };
+
+    const band = plotWidth / categories.length;
+    const center = (x: number) => MARGIN.left + band * (x + 0.5);
+    const out: string[] = [];
+
+    // Grid and y axis labels
+    out.push(`<g class="grid">`);
+    for (const tick of ticks) {
+        out.push(`<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(tick)}" y2="${y(tick)}"/>`);
+        out.push(`<text x="${MARGIN.left - 6}" y="${y(tick) + 4}" text-anchor="end">${formatTick(tick)}</text>`);
+    }
+    out.push(`</g>`);
+
+    // Category labels
+    categories.forEach((label, x) => {
+        out.push(`<text x="${center(x)}" y="${HEIGHT - MARGIN.bottom + 18}" text-anchor="middle">${escapeHtml(label)}</text>`);
+    });
+
+    if (kind === "bar") {
+        const barWidth = (band * 0.8) / Math.max(1, series.length);
+        series.forEach((s, i) => {
+            for (const p of s.points) {
+                const left = MARGIN.left + band * p.x + band * 0.1 + barWidth * i;
+                out.push(
+                    `<rect x="${left}" y="${y(p.y)}" width="${barWidth - 2}" height="${y(bottom) - y(p.y)}" fill="${s.color}"><title>${escapeHtml(`${s.name}: ${p.y.toFixed(0)}`)}</title></rect>`
+                );
+                if (p.low !== undefined && p.high !== undefined) {
+                    const mid = left + (barWidth - 2) / 2;
+                    out.push(`<line x1="${mid}" x2="${mid}" y1="${y(p.low)}" y2="${y(p.high)}" stroke="#111827"/>`);
+                }
+            }
+        });
+    } else {
+        for (const s of series) {
+            const path = s.points.map((p, i) => `${i === 0 ? "M" : "L"}${center(p.x)},${y(p.y)}`).join(" ");
+            out.push(`<path d="${path}" fill="none" stroke="${s.color}" stroke-width="2"/>`);
+            for (const p of s.points) {
+                out.push(
+                    `<circle cx="${center(p.x)}" cy="${y(p.y)}" r="3" fill="${s.color}"><title>${escapeHtml(`${s.name}: ${formatTick(p.y)}`)}</title></circle>`
+                );
+            }
+        }
+    }
+
+    // Axes
+    out.push(
+        `<g class="axis"><line x1="${MARGIN.left}" x2="${MARGIN.left}" y1="${MARGIN.top}" y2="${y(bottom)}"/><line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(bottom)}" y2="${y(bottom)}"/></g>`
+    );
+    out.push(
+        `<text x="16" y="${MARGIN.top + plotHeight / 2}" transform="rotate(-90 16 ${MARGIN.top + plotHeight / 2})" text-anchor="middle">${escapeHtml(options.yLabel)}</text>`
+    );
+
+    // Legend
+    let legendX = MARGIN.left;
+    for (const s of series) {
+        out.push(`<rect x="${legendX}" y="${HEIGHT - 22}" width="12" height="12" fill="${s.color}"/>`);
+        out.push(`<text x="${legendX + 16}" y="${HEIGHT - 12}">${escapeHtml(s.name)}</text>`);
+        legendX += 28 + s.name.length * 7;
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" role="img">
+<text x="${MARGIN.left}" y="20" font-weight="bold">${escapeHtml(options.title)}</text>
+${out.join("\n")}
+</svg>`;
+}
+
+/**
+ * Helper: Latency (ms) at each plotted percentile, minus the subtracted harness overhead
+ */
+function percentileCurve(result: BenchmarkResult): number[] {
+    const histogram = fromSnapshot(result.histogram);
+    const offset = result.overhead.subtracted ? result.overhead.latency : 0;
+    return PERCENTILES.map((p) => Math.max(0, valueAtPercentile(histogram, p) - offset));
+}
+
+/**
+ * Helper: Round tick values from 0 to at least max
+ */
+function linearTicks(max: number): number[] {
+    if (max <= 0) return [0, 1];
+    const rough = max / 5;
+    const magnitude = 10 ** Math.floor(Math.log10(rough));
+    const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough)!;
+    const ticks: number[] = [];
+    for (let v = 0; v < max + step; v += step) ticks.push(v);
+    return ticks;
+}
+
+/**
+ * Helper: Powers of ten spanning min..max
+ */
+function logTicks(min: number, max: number): number[] {
+    const ticks: number[] = [];
+    for (let e = Math.floor(Math.log10(min)); e <= Math.ceil(Math.log10(max)); e++) ticks.push(10 ** e);
+    return ticks.length > 1 ? ticks : [ticks[0]!, ticks[0]! * 10];
+}
+
+/**
+ * Helper: Compact axis label (1.2k, 3M, 0.001)
+ */
+function formatTick(value: number): string {
+    if (value >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+    if (value >= 1e3) return `${+(value / 1e3).toFixed(1)}k`;
+    return `${+value.toPrecision(3)}`;
+}
+
+/**
+ * Helper: Escapes text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
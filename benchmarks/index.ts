@@ -1,8 +1,50 @@
-import { runSqliteBenchmarks } from "./sqlite";
-import { runMariadbBenchmarks } from "./mariadb";
-import { runRedisBenchmarks } from "./redis";
+import { Console } from "console";
+import { writeFile } from "fs/promises";
+import path from "path";
+import {
+    compareRuns,
+    LATEST,
+    listRuns,
+    loadRun,
+    pinBaseline,
+    PINNED,
+    printComparison,
+    regressions,
+    resolveBaseline,
+} from "./baseline";
+import { parseCli, selectSuites, toRunOptions, USAGE, type CliArgs } from "./cli";
+import { configuredOptions, enabledSuites, getConfig, loadConfig } from "./config";
+import { renderHtml } from "./html";
+import { renderMarkdown, updateReadme, type ReportSection } from "./markdown";
+import { suites } from "./registry";
+import { createReporters } from "./reporters";
+import { planSuite, resultsPrefix, runSuite } from "./suite";
+import type { BenchmarkResult } from "./utils";
+
+/**
+ * Runs the selected suites; returns the number of regressions against --baseline plus failed cases
+ */
+async function runAllBenchmarks(args: CliArgs): Promise<number> {
+    const selected = selectSuites(suites, enabledSuites(getConfig()), args);
+
+    if (args.dryRun) {
+        printPlan(args);
+        return 0;
+    }
+
+    const reporters = createReporters(args.formats);
+    if (reporters.some((r) => r.usesStdout)) {
+        // Keep stdout for the machine-readable output: tables and warnings go to stderr too
+        const stderr = new Console({ stdout: process.stderr, stderr: process.stderr });
+        Object.assign(console, {
+            log: stderr.log,
+            info: stderr.info,
+            debug: stderr.debug,
+            warn: stderr.warn,
+            table: stderr.table,
+        });
+    }
 
-async function runAllBenchmarks() {
     console.log("\n");
     console.log("╔═══════════════════════════════════════════════════════════════════════════════╗");
     console.log("║                     DATABASE BENCHMARK SUITE                                  ║");
@@ -11,25 +53,46 @@ async function runAllBenchmarks() {
     console.log("\n");
 
     const startTime = performance.now();
+    let regressed = 0;
+    let failedCases = 0;
 
     try {
-        // SQLite Benchmarks
-        console.log("\n" + "━".repeat(80));
-        console.log("1/3 - SQLite Benchmark");
-        console.log("━".repeat(80));
-        await runSqliteBenchmarks();
-
-        // MariaDB Benchmarks
-        console.log("\n" + "━".repeat(80));
-        console.log("2/3 - MariaDB Benchmark");
-        console.log("━".repeat(80));
-        await runMariadbBenchmarks();
-
-        // Redis Benchmarks
-        console.log("\n" + "━".repeat(80));
-        console.log("3/3 - Redis Benchmark");
-        console.log("━".repeat(80));
-        await runRedisBenchmarks();
+        for (const [index, suite] of selected.entries()) {
+            const options = toRunOptions(suite, args);
+            if (planSuite(suite, options).length === 0) {
+                console.log(`\n⏭️  ${suite.name}: nothing selected`);
+                continue;
+            }
+
+            console.log("\n" + "━".repeat(80));
+            console.log(`${index + 1}/${selected.length} - ${suite.title.replace(/ Results$/, "")}`);
+            console.log("━".repeat(80));
+
+            // Resolved before the run, so "latest" means the previous run
+            const baselineFile = args.baseline
+                ? await resolveBaseline(args.baseline, resultsPrefix(suite), resultsDir(args))
+                : null;
+            if (args.baseline && !baselineFile) {
+                console.log(`\n⚠️  ${suite.title}: no baseline found, skipping comparison`);
+            }
+            const baseline = baselineFile
+                ? { file: baselineFile, run: await loadRun(baselineFile), threshold: regressionThreshold(args) }
+                : undefined;
+
+            const { results, failed } = await runSuite(suite, { ...options, reporters, baseline });
+            failedCases += failed.length;
+
+            // Printed whatever the reporters: a regression fails the run, so it must say why
+            if (baseline) {
+                const comparisons = compareRuns(baseline.run.results, results, baseline);
+                printComparison(comparisons, `${suite.title} vs baseline (${baseline.run.timestamp})`, baseline);
+                regressed += regressions(comparisons).length;
+            }
+        }
+
+        for (const reporter of reporters) {
+            await reporter.finish?.();
+        }
 
         const endTime = performance.now();
         const totalTime = ((endTime - startTime) / 1000).toFixed(2);
@@ -39,26 +102,244 @@ async function runAllBenchmarks() {
         console.log("║                           BENCHMARK COMPLETED                                 ║");
         console.log("╚═══════════════════════════════════════════════════════════════════════════════╝");
         console.log(`\n⏱️  Total time: ${totalTime} seconds`);
-        console.log(`📁 Results saved to results/ directory\n`);
+        if (failedCases > 0) console.log(`❌ ${failedCases} case(s) failed`);
+        if (args.formats.includes("json")) {
+            console.log(`📁 Results saved to ${args.outDir ?? "results/"} directory\n`);
+        }
 
+        return regressed + failedCases;
     } catch (error) {
         console.error("\n❌ Benchmark error occurred:", error);
         console.error("\nTips:");
-        console.error("- For MariaDB: Make sure the server is running and .env file is correct");
-        console.error("- For Redis: Make sure Redis server is running on localhost:6379");
+        console.error("- For MariaDB: Make sure the server is running and bench.config.ts / .env are correct");
+        console.error(`- For Redis: Make sure Redis server is running at ${getConfig().redis.url}`);
         console.error("- For SQLite: No external dependencies required\n");
         throw error;
     }
 }
 
+/**
+ * Compares saved runs against their baselines; returns the number of regressions
+ */
+async function compareSavedRuns(args: CliArgs): Promise<number> {
+    const dir = resultsDir(args);
+
+    // An explicit run file: its baseline is resolved by the file's own prefix
+    if (args.current) {
+        const prefix = path.basename(args.current).replace(/-\d{4}-\d{2}-\d{2}T.*\.json$/, "");
+        return compareFile(args.current, prefix, args);
+    }
+
+    let regressed = 0;
+    for (const suite of selectSuites(suites, enabledSuites(getConfig()), args)) {
+        const runs = await listRuns(resultsPrefix(suite), dir);
+        const current = runs[runs.length - 1];
+        if (!current) {
+            console.log(`\n⏭️  ${suite.name}: no saved runs in ${dir}`);
+            continue;
+        }
+        regressed += await compareFile(current, resultsPrefix(suite), args, suite.title);
+    }
+    return regressed;
+}
+
+/**
+ * Renders saved runs as Markdown tables (printed or written into the README) or an HTML report
+ */
+async function reportSavedRuns(args: CliArgs): Promise<number> {
+    const sections: ReportSection[] = [];
+
+    if (args.files.length > 0) {
+        for (const file of args.files) {
+            const name = path.basename(file).replace(/-\d{4}-\d{2}-\d{2}T.*\.json$/, "");
+            const suite = suites.find((s) => resultsPrefix(s) === name);
+            sections.push({ suite, name, run: await loadRun(file) });
+        }
+    } else {
+        for (const suite of selectSuites(suites, enabledSuites(getConfig()), args)) {
+            const runs = await listRuns(resultsPrefix(suite), resultsDir(args));
+            const latest = runs[runs.length - 1];
+            if (latest) sections.push({ suite, name: suite.name, run: await loadRun(latest) });
+        }
+    }
+
+    if (sections.length === 0) {
+        throw new Error(`No saved runs found in ${resultsDir(args)}`);
+    }
+
+    if (args.html) {
+        const html = renderHtml(
+            sections.map(({ suite, name, run }) => ({
+                title: suite?.title ?? name,
+                results: run.results,
+                libraries: suite?.adapters.map((a) => a.library).filter((lib) => run.results.some((r) => r.library === lib)),
+            })),
+            args.machine ? `Benchmark Report @ ${args.machine}` : undefined
+        );
+        await writeFile(args.html, html);
+        console.log(`✓ Wrote ${args.html} (${sections.length} suite(s))`);
+        return 0;
+    }
+
+    const markdown = renderMarkdown(sections, { machine: args.machine });
+    if (args.readme) {
+        await updateReadme(args.readme, markdown);
+        console.log(`✓ Updated ${args.readme} (${sections.length} suite(s))`);
+    } else {
+        process.stdout.write(markdown);
+    }
+    return 0;
+}
+
+/**
+ * Helper: Compares one saved run with its baseline and pins it when asked
+ */
+async function compareFile(file: string, prefix: string, args: CliArgs, title = prefix): Promise<number> {
+    const dir = resultsDir(args);
+    // Default: the pinned baseline, else the run before this one
+    const baseline = args.baseline
+        ? await resolveBaseline(args.baseline, prefix, dir, file)
+        : ((await resolveBaseline(PINNED, prefix, dir)) ?? (await resolveBaseline(LATEST, prefix, dir, file)));
+    const run = await loadRun(file);
+
+    const regressed = await reportComparison(`${title} (${path.basename(file)})`, baseline, run.results, args);
+
+    if (args.pin) {
+        console.log(`📌 Pinned baseline: ${await pinBaseline(file, prefix, dir)}`);
+    }
+    return regressed;
+}
+
+/**
+ * Helper: Prints current results against a baseline file; returns the regression count
+ */
+async function reportComparison(
+    title: string,
+    baselineFile: string | null,
+    results: BenchmarkResult[],
+    args: CliArgs
+): Promise<number> {
+    if (!baselineFile) {
+        console.log(`\n⚠️  ${title}: no baseline found, skipping comparison`);
+        return 0;
+    }
+
+    const baseline = await loadRun(baselineFile);
+    const options = { threshold: regressionThreshold(args) };
+    const comparisons = compareRuns(baseline.results, results, options);
+
+    printComparison(comparisons, `${title} vs ${path.basename(baselineFile)} (${baseline.timestamp})`, options);
+    return regressions(comparisons).length;
+}
+
+/**
+ * Helper: Regression threshold as a fraction (--threshold, else the config)
+ */
+function regressionThreshold(args: CliArgs): number {
+    return (args.threshold ?? getConfig().baseline.threshold) / 100;
+}
+
+/**
+ * Helper: Directory saved results are read from and written to
+ */
+function resultsDir(args: CliArgs): string {
+    return args.outDir ?? path.join(process.cwd(), "results");
+}
+
+/**
+ * Lists every registered suite with its operations and libraries
+ */
+function listCases() {
+    const enabled = enabledSuites(getConfig());
+    for (const suite of suites) {
+        const isDefault = enabled.includes(suite.name) ? "" : " (disabled in config)";
+        console.log(`\n${suite.name}${isDefault} - ${suite.title}`);
+        for (const operation of suite.operations) {
+            const libraries = suite.adapters
+                .filter((a) => a.operations[operation])
+                .map((a) => a.library);
+            console.log(`  ${operation.padEnd(20)} ${libraries.join(", ")}`);
+        }
+    }
+    console.log();
+}
+
+/**
+ * Prints the cases a run would execute, without running them
+ */
+function printPlan(args: CliArgs) {
+    console.log("\nDry run - planned cases:\n");
+    let total = 0;
+
+    const config = getConfig();
+    for (const suite of selectSuites(suites, enabledSuites(config), args)) {
+        const options = toRunOptions(suite, args);
+        const plan = planSuite(suite, options);
+        total += plan.length;
+
+        console.log(`${suite.name}:`);
+        for (const { kind, operation, adapter } of plan) {
+            const mode = kind === "matrix" ? "" : ` [${kind}]`;
+            console.log(`  ${operation} / ${adapter.library}${mode}`);
+        }
+        const effective = { ...suite.options, ...configuredOptions(config, suite.name), ...args.overrides };
+        console.log(`  options: ${JSON.stringify(effective)}\n`);
+    }
+
+    console.log(`${total} case(s) selected`);
+}
+
 // Run
 if (import.meta.main) {
-    runAllBenchmarks()
-        .then(() => {
-            process.exit(0);
+    let args: CliArgs;
+    try {
+        args = parseCli(process.argv.slice(2));
+        const config = await loadConfig({ path: args.config, set: args.set });
+        const unknown = Object.keys(config.suites).filter((name) => !suites.some((s) => s.name === name));
+        if (unknown.length > 0) {
+            throw new Error(`Invalid config: unknown suite(s) ${unknown.join(", ")}`);
+        }
+        for (const suite of suites) {
+            const library = config.suites[suite.name]?.baselineLibrary;
+            if (library !== undefined && !suite.adapters.some((a) => a.library === library)) {
+                throw new Error(`Invalid config: suites.${suite.name}.baselineLibrary "${library}" is not a library of that suite`);
+            }
+        }
+        // Commands given explicit saved files don't need a suite selection
+        const savedOnly =
+            (args.command === "compare" && args.current) || (args.command === "report" && args.files.length > 0);
+        if (args.command !== "list" && args.command !== "help" && !savedOnly) {
+            selectSuites(suites, enabledSuites(config), args);
+        }
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : error}\n`);
+        console.error(USAGE);
+        process.exit(2);
+    }
+
+    if (args.command === "help") {
+        console.log(USAGE);
+        process.exit(0);
+    }
+
+    if (args.command === "list") {
+        listCases();
+        process.exit(0);
+    }
+
+    const command =
+        args.command === "compare"
+            ? compareSavedRuns(args)
+            : args.command === "report"
+              ? reportSavedRuns(args)
+              : runAllBenchmarks(args);
+    command
+        .then((regressed) => {
+            // Regressions past the threshold and failed cases fail the run (e.g. in CI)
+            process.exit(regressed > 0 ? 1 : 0);
         })
         .catch((error) => {
+            if (args.command !== "run") console.error(`❌ ${error instanceof Error ? error.message : error}`);
             process.exit(1);
         });
 }
-
@@ -0,0 +1,169 @@
+import { seedBatches } from "./adapters/shared";
+import type { Backend } from "./environment";
+import { defineAdapter, type Adapter, type OperationCase } from "./suite";
+import type { Distribution, Workload } from "./workload";
+
+/**
+ * Minimal key-value binding the YCSB workloads run against. Records are addressed by id
+ * (0 .. keyspace-1 after loading, higher ids for inserts). All methods are either
+ * synchronous or all async, so the benchmark can tell how to drive the store.
+ */
+export interface KvStore {
+    read(id: number): Promise<unknown> | unknown;
+    update(id: number, value: string): Promise<unknown> | unknown;
+    // Overwrites an existing record: ids restart when the measured samples begin
+    insert(id: number, value: string): Promise<unknown> | unknown;
+    // Up to `count` records from `id` upward, in id order
+    scan?(id: number, count: number): Promise<unknown> | unknown;
+    // Inserts a batch of records in one statement or pipeline when loading; without it
+    // each batch's inserts are sent at once
+    load?(ids: number[], values: string[]): Promise<unknown> | unknown;
+    close(): Promise<void> | void;
+}
+
+/**
+ * A library's KvStore; defineKvAdapter turns it into a suite adapter running every YCSB workload
+ */
+export interface KvAdapter {
+    library: string;
+    // Server the library talks to; checked before the suite runs and skipped when unavailable
+    backend?: Backend;
+    // Connects and empties the store; runs once per case like Adapter.setup
+    open: (workload: Workload) => Promise<KvStore> | KvStore;
+    // False for stores without ordered keys (e.g. memcached); workload E is left out for them
+    scans?: boolean;
+}
+
+export type KvOperation = "read" | "update" | "insert" | "scan" | "readModifyWrite";
+
+/**
+ * One YCSB core workload
+ */
+export interface YcsbWorkload {
+    name: string;
+    description: string;
+    // Fraction of calls per operation; sums to 1
+    mix: Partial<Record<KvOperation, number>>;
+    // Key choice of reads, updates and scans (suites.ycsb.workload.distribution overrides it)
+    distribution: Distribution;
+}
+
+// Longest scan of workload E; lengths are uniform in 1..MAX_SCAN_LENGTH as in YCSB
+export const MAX_SCAN_LENGTH = 100;
+
+/**
+ * The YCSB core workloads (https://github.com/brianfrankcooper/YCSB/wiki/Core-Workloads)
+ */
+export const YCSB_WORKLOADS: YcsbWorkload[] = [
+    {
+        name: "A: update heavy",
+        description: "50% reads, 50% updates",
+        mix: { read: 0.5, update: 0.5 },
+        distribution: "zipfian",
+    },
+    {
+        name: "B: read mostly",
+        description: "95% reads, 5% updates",
+        mix: { read: 0.95, update: 0.05 },
+        distribution: "zipfian",
+    },
+    {
+        name: "C: read only",
+        description: "100% reads",
+        mix: { read: 1 },
+        distribution: "zipfian",
+    },
+    {
+        name: "D: read latest",
+        description: "95% reads, 5% inserts; the newest records are read most",
+        mix: { read: 0.95, insert: 0.05 },
+        distribution: "latest",
+    },
+    {
+        name: "E: short ranges",
+        description: `95% scans of 1-${MAX_SCAN_LENGTH} records, 5% inserts`,
+        mix: { scan: 0.95, insert: 0.05 },
+        distribution: "zipfian",
+    },
+    {
+        name: "F: read-modify-write",
+        description: "50% reads, 50% read-modify-writes",
+        mix: { read: 0.5, readModifyWrite: 0.5 },
+        distribution: "zipfian",
+    },
+];
+
+/**
+ * Builds the suite adapter of a key-value library: one operation per YCSB workload,
+ * each loading workload.spec.keyspace records before it is measured
+ */
+export function defineKvAdapter(kv: KvAdapter): Adapter<KvStore> {
+    const workloads = YCSB_WORKLOADS.filter((w) => kv.scans !== false || !w.mix.scan);
+    return defineAdapter<KvStore>({
+        library: kv.library,
+        backend: kv.backend,
+        setup: kv.open,
+        teardown: (store) => store.close(),
+        operations: Object.fromEntries(workloads.map((w) => [w.name, ycsbOperation(w)])),
+    });
+}
+
+/**
+ * Helper: Operation case of one workload; each call is one operation drawn from the mix
+ */
+function ycsbOperation(ycsb: YcsbWorkload): OperationCase<KvStore> {
+    // Cumulative thresholds, e.g. [[0.5, "read"], [1, "update"]]
+    let total = 0;
+    const thresholds = Object.entries(ycsb.mix).map(([op, fraction]) => {
+        total += fraction;
+        return [total, op as KvOperation] as const;
+    });
+    // Rounding can leave the sum just below 1
+    const last = thresholds[thresholds.length - 1]![1];
+
+    return {
+        workload: { distribution: ycsb.distribution },
+        async beforeAll(store, workload) {
+            for (const ids of seedBatches(workload.spec)) {
+                const values = ids.map(() => workload.value());
+                if (store.load) await store.load(ids, values);
+                else await Promise.all(ids.map((id, i) => store.insert(id, values[i]!)));
+            }
+        },
+        run(store, workload) {
+            const r = workload.random();
+            const op = thresholds.find(([threshold]) => r < threshold)?.[1] ?? last;
+            // Promise for async stores, a plain value for sync ones
+            let result: unknown;
+            switch (op) {
+                case "read":
+                    result = store.read(workload.key());
+                    break;
+                case "update":
+                    result = store.update(workload.key(), workload.value());
+                    break;
+                case "insert":
+                    result = store.insert(workload.newKey(), workload.value());
+                    break;
+                case "scan":
+                    result = store.scan!(workload.key(), 1 + workload.int(MAX_SCAN_LENGTH));
+                    break;
+                case "readModifyWrite":
+                    result = readModifyWrite(store, workload.key(), workload.value());
+                    break;
+            }
+            return result as Promise<void> | void;
+        },
+    };
+}
+
+/**
+ * Helper: Reads a record and writes it back with a new value, staying synchronous for sync stores
+ */
+function readModifyWrite(store: KvStore, id: number, value: string): Promise<void> | void {
+    const read = store.read(id);
+    if (read instanceof Promise) {
+        return read.then(() => store.update(id, value)).then(() => {});
+    }
+    store.update(id, value);
+}
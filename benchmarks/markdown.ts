@@ -0,0 +1,221 @@
+import { readFile, writeFile } from "fs/promises";
+import { describeEnvironment, type Environment } from "./environment";
+import { baselineLibrary, type Suite } from "./suite";
+import {
+    orderLibraries,
+    relativeMatrix,
+    type BenchmarkResult,
+    type RelativeCase,
+    type SavedRun,
+} from "./utils";
+import { describeWorkload } from "./workload";
+
+/**
+ * One saved run and the suite it belongs to (when still registered)
+ */
+export interface ReportSection {
+    suite?: Suite;
+    // Fallback heading when the suite is unknown
+    name: string;
+    run: SavedRun;
+}
+
+export interface MarkdownOptions {
+    // Machine name for the heading, e.g. "Mac Mini M4"
+    machine?: string;
+}
+
+export const README_START = "<!-- benchmark-results:start -->";
+export const README_END = "<!-- benchmark-results:end -->";
+
+/**
+ * Renders the results heading, environment block and one comparison table per suite
+ */
+export function renderMarkdown(sections: ReportSection[], options: MarkdownOptions = {}): string {
+    const timestamps = sections.map((s) => new Date(s.run.timestamp).getTime()).filter(Number.isFinite);
+    const date = timestamps.length > 0 ? formatDate(new Date(Math.max(...timestamps))) : "unknown";
+    const at = options.machine ? ` @ ${options.machine}` : "";
+
+    const lines = [`# 📊 Benchmark Results${at} (${date})`, ""];
+    if (options.machine) lines.push(`> **Test Environment:** ${options.machine}`);
+    lines.push(`> **Test Date:** ${date}`);
+    // Newest run wins when sections were measured on different setups
+    const environment = [...sections]
+        .sort((a, b) => b.run.timestamp.localeCompare(a.run.timestamp))
+        .find((s) => s.run.environment)?.run.environment;
+    if (environment) {
+        lines.push(`> **Runtime:** ${describeEnvironment(environment)}`);
+        if (environment.git) {
+            const dirty = environment.git.dirty ? ", uncommitted changes" : "";
+            lines.push(`> **Commit:** \`${environment.git.commit.slice(0, 7)}\` (${environment.git.branch}${dirty})`);
+        }
+    }
+    lines.push(`> **Samples:** ${describeSampling(sections.flatMap((s) => s.run.results))}`);
+    lines.push("", "---", "", "## 📈 Performance Comparisons", "");
+
+    for (const section of sections) {
+        lines.push(...renderSection(section), "", "---", "");
+    }
+
+    return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Replaces the text between the README markers, keeping the markers
+ */
+export function replaceMarkedSection(content: string, markdown: string): string {
+    const start = content.indexOf(README_START);
+    const end = content.indexOf(README_END);
+    if (start === -1 || end === -1 || end < start) {
+        throw new Error(`README has no ${README_START} ... ${README_END} section`);
+    }
+    return `${content.slice(0, start + README_START.length)}\n\n${markdown}\n${content.slice(end)}`;
+}
+
+/**
+ * Rewrites the marked results section of a README file in place
+ */
+export async function updateReadme(file: string, markdown: string) {
+    const content = await readFile(file, "utf8");
+    await writeFile(file, replaceMarkedSection(content, markdown));
+}
+
+/**
+ * Helper: Heading, description, table and summary of one suite
+ */
+function renderSection({ suite, name, run }: ReportSection): string[] {
+    const heading = suite?.report?.heading ?? suite?.title.replace(/ Results$/, "") ?? name;
+    const lines = [`### ${heading}`, ""];
+    if (suite?.report?.description) lines.push(suite.report.description, "");
+
+    // Libraries in suite order, then any the suite no longer declares
+    const libraries = orderLibraries(run.results, suite?.adapters.map((a) => a.library));
+    const baseline = suite ? baselineLibrary(suite) : savedBaseline(run) ?? libraries[0];
+
+    const header = libraries.map((lib) => (lib === baseline ? `${lib} (baseline)` : lib));
+    lines.push(`| Operation | ${header.join(" | ")} | Performance Gain |`);
+    lines.push(`|-----------|${libraries.map(() => "---:").join("|")}|------------------|`);
+
+    const wins = new Map<string, number>();
+    const matrix = relativeMatrix(run.results, baseline, libraries);
+
+    for (const c of matrix) {
+        if (c.conclusive) wins.set(c.fastest, (wins.get(c.fastest) ?? 0) + 1);
+
+        const cells = libraries.map((lib) => {
+            const result = c.libraries.find((r) => r.library === lib);
+            if (!result) return "N/A";
+            let ops = `${formatOps(result.opsPerSecond)} ops/sec`;
+            if (lib !== c.baseline) ops += ` (${result.speedup.toFixed(2)}x)`;
+            return c.conclusive && lib === c.fastest ? `**${ops}**` : ops;
+        });
+
+        lines.push(`| **${c.operation}** | ${cells.join(" | ")} | ${formatGain(c)} |`);
+    }
+
+    const total = matrix.length;
+    const leader = [...wins.entries()].sort((a, b) => b[1] - a[1])[0];
+    lines.push("");
+    lines.push(
+        leader
+            ? `**Summary:** ${leader[0]} is fastest in ${leader[1]} of ${total} cases.`
+            : "**Summary:** No library is fastest beyond the 95% confidence intervals."
+    );
+    // Operations with their own workload (e.g. YCSB distributions) are listed separately
+    const caseWorkloads = new Map<string, string>();
+    for (const r of run.results) {
+        if (r.workload) caseWorkloads.set(r.operation, describeWorkload(r.workload));
+    }
+    if (run.workload && run.results.some((r) => !r.workload)) {
+        lines.push("", `_Workload: ${describeWorkload(run.workload)}_`);
+    }
+    if (caseWorkloads.size > 0) {
+        lines.push("", "_Workloads:_", "", ...[...caseWorkloads].map(([op, spec]) => `- ${op}: ${spec}`));
+    }
+    if (run.skipped?.length) {
+        const skipped = run.skipped.map((s) => `${s.library} (${s.reason})`).join(", ");
+        lines.push("", `_Skipped: ${skipped}_`);
+    }
+    if (run.failed?.length) {
+        const failed = run.failed.map((f) => `${f.library} ${f.operation}${f.kind ? ` (${f.kind})` : ""}`).join(", ");
+        lines.push("", `_Failed: ${failed}_`);
+    }
+    if (run.environment) {
+        const versions = describeVersions(run.environment, libraries);
+        if (versions) lines.push("", `<sub>Versions: ${versions}</sub>`);
+    }
+
+    return lines;
+}
+
+/**
+ * Helper: The fastest library's speedup over the baseline, or the runner-up's
+ * when the baseline itself is fastest, with an emoji by magnitude
+ */
+function formatGain(c: RelativeCase): string {
+    if (c.libraries.length < 2) return "-";
+    if (!c.conclusive) return "≈ within noise";
+
+    if (c.fastest !== c.baseline) {
+        const fastest = c.libraries.find((r) => r.library === c.fastest)!;
+        return `${gainIcon(fastest.speedup)} **${c.fastest} ${fastest.speedup.toFixed(2)}x faster**`;
+    }
+    const runnerUp = c.libraries
+        .filter((r) => r.library !== c.baseline)
+        .sort((a, b) => b.speedup - a.speedup)[0]!;
+    return `${gainIcon(1 / runnerUp.speedup)} **${c.baseline} fastest**, ${runnerUp.library} at ${runnerUp.speedup.toFixed(2)}x`;
+}
+
+/**
+ * Helper: Emoji for a speedup
+ */
+function gainIcon(speedup: number): string {
+    return speedup >= 2 ? "🔥" : speedup >= 1.5 ? "🚀" : speedup >= 1.2 ? "⚡" : "🔹";
+}
+
+/**
+ * Helper: Baseline library stored in a saved run's summary, if any
+ */
+function savedBaseline(run: SavedRun): string | undefined {
+    const first = Object.values(run.summary)[0];
+    return typeof first?.baseline === "string" ? first.baseline : undefined;
+}
+
+/**
+ * Helper: Client package versions of the listed libraries and server versions, e.g. "mysql2 3.11.0 · MariaDB server 11.4.2"
+ */
+function describeVersions(env: Environment, libraries: string[]): string {
+    const packages = libraries
+        .filter((lib) => env.packages[lib])
+        .map((lib) => `${lib} ${env.packages[lib]}`);
+    const servers = Object.entries(env.servers).map(
+        ([backend, version]) => `${backend} server ${version ?? "unknown"}`
+    );
+    return [...packages, ...servers].join(" · ");
+}
+
+/**
+ * Helper: Describes samples and wall time per case, e.g. "5 × 1.0 s per case"
+ */
+function describeSampling(results: BenchmarkResult[]): string {
+    const first = results.find((r) => r.samples) ?? results[0];
+    if (!first) return "none";
+    const kept = first.samples?.count ?? 1;
+    const seconds = first.duration / kept / 1000;
+    const samples = kept + (first.samples?.rejected ?? 0);
+    return `${samples} × ~${seconds.toFixed(1)} s per case, mean of samples after outlier rejection`;
+}
+
+/**
+ * Helper: Thousands-separated integer
+ */
+function formatOps(value: number): string {
+    return Math.round(value).toLocaleString("en-US");
+}
+
+/**
+ * Helper: "January 17, 2026"
+ */
+function formatDate(date: Date): string {
+    return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
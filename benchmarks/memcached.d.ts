@@ -0,0 +1,28 @@
+/**
+ * Types for the parts of the memcached package the benchmarks use; it ships none
+ */
+declare module "memcached" {
+    type Callback<T = unknown> = (err: Error | undefined, data: T) => void;
+
+    export interface MemcachedOptions {
+        // Per-operation timeout in ms
+        timeout?: number;
+        retries?: number;
+    }
+
+    export interface ServerStats {
+        server?: string;
+        version?: string;
+        [stat: string]: unknown;
+    }
+
+    export default class Memcached {
+        constructor(location: string | string[], options?: MemcachedOptions);
+        get(key: string, callback: Callback): void;
+        set(key: string, value: string, lifetime: number, callback: Callback<boolean>): void;
+        del(key: string, callback: Callback<boolean>): void;
+        flush(callback: Callback<boolean[]>): void;
+        stats(callback: Callback<ServerStats[]>): void;
+        end(): void;
+    }
+}
@@ -0,0 +1,19 @@
+import { mariadbSuite } from "./mariadb";
+import { redisSuite } from "./redis";
+import { sqliteSuite } from "./sqlite";
+import { compareSuite } from "./sqlite_vs_redis";
+import type { Suite } from "./suite";
+import { ycsbSuite } from "./ycsb";
+
+/**
+ * All benchmark suites, in default run order
+ */
+export const suites: Suite[] = [sqliteSuite, mariadbSuite, redisSuite, compareSuite, ycsbSuite];
+
+export function findSuite(name: string): Suite {
+    const suite = suites.find((s) => s.name === name);
+    if (!suite) {
+        throw new Error(`Unknown suite "${name}" (available: ${suites.map((s) => s.name).join(", ")})`);
+    }
+    return suite;
+}
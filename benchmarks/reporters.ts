@@ -0,0 +1,260 @@
+import type { CaseComparison } from "./baseline";
+import type { Environment } from "./environment";
+import { saveHtml } from "./html";
+import { baselineLibrary, resultsPrefix, type Suite } from "./suite";
+import {
+    caseLabel,
+    generateSummary,
+    printResults,
+    saveResults,
+    writeResultsFile,
+    type BenchmarkResult,
+    type FailedCase,
+    type SkippedLibrary,
+} from "./utils";
+import type { WorkloadSpec } from "./workload";
+
+/**
+ * Everything a reporter gets once a suite has finished
+ */
+export interface SuiteReport {
+    suite: Suite;
+    results: BenchmarkResult[];
+    // Libraries whose backend was unavailable (results may be empty when all were)
+    skipped: SkippedLibrary[];
+    // Cases that stopped with an error; they have no entry in results
+    failed: FailedCase[];
+    environment: Environment;
+    // Workload the operations ran with
+    workload: WorkloadSpec;
+    // Directory for written files (defaults to ./results)
+    outDir?: string;
+    // Set when the run was compared against a saved baseline
+    baseline?: {
+        file: string;
+        timestamp: string;
+        // Fraction, e.g. 0.05
+        threshold: number;
+        comparisons: CaseComparison[];
+    };
+}
+
+/**
+ * Output plugin. suite() runs after each suite, finish() once after all of them.
+ */
+export interface Reporter {
+    name: string;
+    // Writes machine-readable data to stdout; progress output is moved to stderr
+    usesStdout?: boolean;
+    suite: (report: SuiteReport) => Promise<void> | void;
+    finish?: () => Promise<void> | void;
+}
+
+export type ReporterFactory = () => Reporter;
+
+export const DEFAULT_REPORTERS = ["table", "json"];
+
+const factories = new Map<string, ReporterFactory>();
+
+/**
+ * Makes a reporter selectable by name (-f / --format)
+ */
+export function registerReporter(name: string, factory: ReporterFactory) {
+    factories.set(name, factory);
+}
+
+export function reporterNames(): string[] {
+    return [...factories.keys()];
+}
+
+/**
+ * Instantiates reporters by name; throws on unknown names
+ */
+export function createReporters(names: string[] = DEFAULT_REPORTERS): Reporter[] {
+    return names.map((name) => {
+        const factory = factories.get(name);
+        if (!factory) {
+            throw new Error(`Unknown format "${name}" (expected: ${reporterNames().join(", ")})`);
+        }
+        return factory();
+    });
+}
+
+// Console table and comparison summary (the baseline diff is printed by the CLI for every format,
+// skipped libraries by runSuite when their probe fails)
+registerReporter("table", () => ({
+    name: "table",
+    suite({ suite, results }) {
+        if (results.length === 0) return;
+        printResults(results, suite.title, {
+            libraries: suite.adapters.map((a) => a.library),
+            baseline: baselineLibrary(suite),
+        });
+    },
+}));
+
+// Pretty JSON per suite, readable by compare/report
+registerReporter("json", () => ({
+    name: "json",
+    async suite({ suite, results, skipped, failed, environment, workload, outDir }) {
+        // A suite whose backends were all down (or whose cases all failed) still records why;
+        // listRuns() leaves such runs out, so they never become the "latest" baseline
+        if (results.length === 0 && skipped.length === 0 && failed.length === 0) return;
+        await saveResults(results, resultsPrefix(suite), {
+            resultsDir: outDir,
+            environment,
+            workload,
+            baseline: baselineLibrary(suite),
+            skipped,
+            failed,
+        });
+    },
+}));
+
+registerReporter("html", () => ({
+    name: "html",
+    async suite({ suite, results, outDir }) {
+        if (results.length === 0) return;
+        const libraries = suite.adapters.map((a) => a.library);
+        await saveHtml([{ title: suite.title, results, libraries }], resultsPrefix(suite), outDir, suite.title);
+    },
+}));
+
+// One row per result, for spreadsheets
+registerReporter("csv", () => ({
+    name: "csv",
+    async suite({ suite, results, outDir }) {
+        if (results.length === 0) return;
+        const header = [
+            "suite", "operation", "library", "concurrency", "workers", "iterations", "duration_ms",
+            "ops_per_sec", "ci95_lower", "ci95_upper", "cv", "p50_ms", "p90_ms", "p99_ms", "p999_ms",
+            "max_ms", "mean_ms", "stddev_ms", "cpu_user_ms", "cpu_system_ms", "ops_per_cpu_ms", "bytes_per_op",
+            "successes", "errors", "timeouts", "target_rate", "service_p99_ms",
+        ];
+        const rows = results.map((r) => [
+            suite.name, r.operation, r.library, r.concurrency ?? "", r.workers ?? "", r.iterations, r.duration,
+            r.opsPerSecond, r.samples?.ci95.lower ?? "", r.samples?.ci95.upper ?? "", r.samples?.cv ?? "",
+            r.latency.p50, r.latency.p90, r.latency.p99, r.latency.p999, r.latency.max, r.latency.mean,
+            r.latency.stddev, r.resources.cpuUser, r.resources.cpuSystem, r.resources.opsPerCpuMs,
+            r.resources.bytesPerOp, r.outcomes?.successes ?? "", r.outcomes?.errors ?? "", r.outcomes?.timeouts ?? "",
+            r.openLoop?.targetRate ?? "", r.openLoop?.serviceTime.p99 ?? "",
+        ]);
+        const csv = [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+
+        const filepath = await writeResultsFile(resultsPrefix(suite), "csv", csv, outDir);
+        console.log(`\n✓ CSV saved: ${filepath}`);
+    },
+}));
+
+// JSON Lines: one complete result per line
+registerReporter("ndjson", () => ({
+    name: "ndjson",
+    async suite({ suite, results, environment, outDir }) {
+        if (results.length === 0) return;
+        const timestamp = new Date().toISOString();
+        const commit = environment.git?.commit ?? null;
+        const lines = results.map((r) =>
+            JSON.stringify({ suite: suite.name, timestamp, bun: environment.bun.version, commit, ...r })
+        );
+
+        const filepath = await writeResultsFile(resultsPrefix(suite), "ndjson", lines.join("\n") + "\n", outDir);
+        console.log(`\n✓ NDJSON saved: ${filepath}`);
+    },
+}));
+
+// JUnit XML: a testcase per case, baseline regressions as failures, failed cases as errors,
+// unavailable libraries as skipped
+registerReporter("junit", () => ({
+    name: "junit",
+    async suite({ suite, results, skipped, failed, outDir, baseline }) {
+        const failures = baseline?.comparisons.filter((c) => c.status === "regression") ?? [];
+        const failureFor = (r: BenchmarkResult) =>
+            failures.find((c) => c.library === r.library && c.operation === caseLabel(r));
+        const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+        const cases = results.map((r) => {
+            const failure = failureFor(r);
+            const attrs = `classname="${xml(`${suite.name}.${r.library}`)}" name="${xml(caseLabel(r))}" time="${seconds(r.duration)}"`;
+            const out = `<system-out>${xml(
+                `${r.opsPerSecond.toFixed(2)} ops/sec, p50 ${r.latency.p50.toFixed(4)} ms, p99 ${r.latency.p99.toFixed(4)} ms`
+            )}</system-out>`;
+            if (!failure) {
+                return `    <testcase ${attrs}>${out}</testcase>`;
+            }
+            const message =
+                `${(failure.change! * 100).toFixed(1)}% ops/sec vs baseline ` +
+                `(${failure.baselineOps!.toFixed(2)} → ${failure.currentOps!.toFixed(2)}, threshold -${(baseline!.threshold * 100).toFixed(1)}%)`;
+            return `    <testcase ${attrs}>\n      <failure type="regression" message="${xml(message)}"/>\n      ${out}\n    </testcase>`;
+        });
+        for (const { operation, library, kind, error } of failed) {
+            const name = kind ? `${operation} (${kind})` : operation;
+            cases.push(
+                `    <testcase classname="${xml(`${suite.name}.${library}`)}" name="${xml(name)}" time="0">` +
+                    `<error type="failed" message="${xml(error)}"/></testcase>`
+            );
+        }
+        for (const { library, reason } of skipped) {
+            cases.push(
+                `    <testcase classname="${xml(`${suite.name}.${library}`)}" name="${xml(library)}" time="0">` +
+                    `<skipped message="${xml(reason)}"/></testcase>`
+            );
+        }
+        const tests = results.length + failed.length + skipped.length;
+
+        const total = results.reduce((sum, r) => sum + r.duration, 0);
+        const content = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="benchmarks" tests="${tests}" failures="${failures.length}" errors="${failed.length}" skipped="${skipped.length}" time="${seconds(total)}">
+  <testsuite name="${xml(suite.title)}" tests="${tests}" failures="${failures.length}" errors="${failed.length}" skipped="${skipped.length}" time="${seconds(total)}" timestamp="${new Date().toISOString()}">
+${cases.join("\n")}
+  </testsuite>
+</testsuites>
+`;
+
+        const filepath = await writeResultsFile(resultsPrefix(suite), "xml", content, outDir);
+        console.log(`\n✓ JUnit XML saved: ${filepath}`);
+    },
+}));
+
+// Quiet mode: a single JSON document on stdout once everything has run
+registerReporter("stdout", () => {
+    const suites: unknown[] = [];
+    return {
+        name: "stdout",
+        usesStdout: true,
+        suite({ suite, results, skipped, failed, environment, workload, baseline }) {
+            suites.push({
+                suite: suite.name,
+                title: suite.title,
+                results,
+                summary: generateSummary(results, baselineLibrary(suite)),
+                skipped,
+                failed,
+                environment,
+                workload,
+                ...(baseline ? { baseline: { file: baseline.file, comparisons: baseline.comparisons } } : {}),
+            });
+        },
+        finish() {
+            process.stdout.write(JSON.stringify({ timestamp: new Date().toISOString(), suites }) + "\n");
+        },
+    };
+});
+
+/**
+ * Helper: Quotes a CSV cell when needed
+ */
+function csvCell(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Helper: Escapes text for XML attributes and content
+ */
+function xml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,105 @@
+import { PerformanceObserver } from "perf_hooks";
+import { getHeapStatistics } from "v8";
+
+/**
+ * Process resource usage over a benchmark case
+ */
+export interface ResourceUsage {
+    // Calls covered by the measurement (all samples, including rejected ones)
+    iterations: number;
+    // CPU time in ms
+    cpuUser: number;
+    cpuSystem: number;
+    // Deltas in bytes
+    rssDelta: number;
+    heapUsedDelta: number;
+    // null when the runtime doesn't expose the counter (e.g. GC entries under Bun) or it went backwards
+    allocatedBytes: number | null;
+    gcCount: number | null;
+    gcTime: number | null;
+    // Derived per-op figures; bytesPerOp is never negative
+    opsPerCpuMs: number;
+    bytesPerOp: number;
+}
+
+/**
+ * Starts capturing resource usage; call the returned function to stop
+ */
+export function startResourceCapture(): (iterations: number) => ResourceUsage {
+    const gc = observeGc();
+    const cpuStart = process.cpuUsage();
+    const memStart = process.memoryUsage();
+    const allocatedStart = allocatedBytes();
+
+    return (iterations) => {
+        const cpu = process.cpuUsage(cpuStart);
+        const mem = process.memoryUsage();
+        const allocatedEnd = allocatedBytes();
+        const gcStats = gc?.stop() ?? null;
+
+        const cpuUser = cpu.user / 1000;
+        const cpuSystem = cpu.system / 1000;
+        const heapUsedDelta = mem.heapUsed - memStart.heapUsed;
+        // Bun's counter isn't cumulative and can move backwards; a negative delta is no measurement
+        const allocatedDelta =
+            allocatedStart !== null && allocatedEnd !== null ? allocatedEnd - allocatedStart : null;
+        const allocated = allocatedDelta !== null && allocatedDelta >= 0 ? allocatedDelta : null;
+        const cpuTotal = cpuUser + cpuSystem;
+
+        return {
+            iterations,
+            cpuUser,
+            cpuSystem,
+            rssDelta: mem.rss - memStart.rss,
+            heapUsedDelta,
+            allocatedBytes: allocated,
+            gcCount: gcStats?.count ?? null,
+            gcTime: gcStats?.time ?? null,
+            opsPerCpuMs: cpuTotal > 0 ? iterations / cpuTotal : 0,
+            // Heap growth is the fallback when total allocations aren't available
+            bytesPerOp: iterations > 0 ? (allocated ?? Math.max(0, heapUsedDelta)) / iterations : 0,
+        };
+    };
+}
+
+/**
+ * Helper: Total bytes allocated by the JS heap so far, when exposed
+ */
+function allocatedBytes(): number | null {
+    const stats = getHeapStatistics() as ReturnType<typeof getHeapStatistics> & {
+        total_allocated_bytes?: number;
+    };
+    return typeof stats.total_allocated_bytes === "number" ? stats.total_allocated_bytes : null;
+}
+
+/**
+ * Helper: Counts GC events via perf_hooks where the runtime emits them
+ */
+function observeGc(): { stop: () => { count: number; time: number } } | null {
+    const { supportedEntryTypes } = PerformanceObserver as unknown as {
+        supportedEntryTypes?: readonly string[];
+    };
+    if (!supportedEntryTypes?.includes("gc")) {
+        return null;
+    }
+
+    let count = 0;
+    let time = 0;
+    const collect = (entries: PerformanceEntry[]) => {
+        for (const entry of entries) {
+            count++;
+            time += entry.duration;
+        }
+    };
+
+    const observer = new PerformanceObserver((list) => collect(list.getEntries()));
+    observer.observe({ entryTypes: ["gc"] });
+
+    return {
+        stop: () => {
+            collect(observer.takeRecords());
+            observer.disconnect();
+            return { count, time };
+        },
+    };
+}
@@ -0,0 +1,113 @@
+/**
+ * Sample statistics for repeated benchmark runs
+ */
+
+export interface SampleStats {
+    count: number;
+    rejected: number;
+    values: number[];
+    outliers: number[];
+    mean: number;
+    median: number;
+    stddev: number;
+    cv: number;
+    ci95: { lower: number; upper: number };
+}
+
+// Two-sided 95% Student's t critical values, indexed by degrees of freedom
+const T_CRITICAL_95 = [
+    NaN, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+    2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+    2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export function mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation (n - 1)
+ */
+export function stddev(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    const squares = values.reduce((sum, v) => sum + (v - m) ** 2, 0);
+    return Math.sqrt(squares / (values.length - 1));
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+export function quantile(values: number[], q: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * q;
+    const lower = Math.floor(pos);
+    const upper = Math.ceil(pos);
+    const lowerValue = sorted[lower] ?? 0;
+    const upperValue = sorted[upper] ?? lowerValue;
+    return lowerValue + (upperValue - lowerValue) * (pos - lower);
+}
+
+export function median(values: number[]): number {
+    return quantile(values, 0.5);
+}
+
+/**
+ * Splits values using Tukey's fences (1.5 × IQR). Needs at least 4 values.
+ */
+export function rejectOutliers(values: number[]): { kept: number[]; outliers: number[] } {
+    if (values.length < 4) {
+        return { kept: [...values], outliers: [] };
+    }
+
+    const q1 = quantile(values, 0.25);
+    const q3 = quantile(values, 0.75);
+    const iqr = q3 - q1;
+    const low = q1 - 1.5 * iqr;
+    const high = q3 + 1.5 * iqr;
+
+    const kept: number[] = [];
+    const outliers: number[] = [];
+    for (const v of values) {
+        if (v < low || v > high) outliers.push(v);
+        else kept.push(v);
+    }
+
+    return { kept, outliers };
+}
+
+/**
+ * Rejects outliers and summarizes remaining samples with a 95% CI of the mean
+ */
+export function summarizeSamples(values: number[]): SampleStats {
+    const { kept, outliers } = rejectOutliers(values);
+    const m = mean(kept);
+    const sd = stddev(kept);
+    const df = kept.length - 1;
+    const t = df >= 1 ? T_CRITICAL_95[df] ?? 1.96 : 0;
+    const margin = kept.length > 1 ? (t * sd) / Math.sqrt(kept.length) : 0;
+
+    return {
+        count: kept.length,
+        rejected: outliers.length,
+        values: kept,
+        outliers,
+        mean: m,
+        median: median(kept),
+        stddev: sd,
+        cv: m === 0 ? 0 : sd / m,
+        ci95: { lower: m - margin, upper: m + margin },
+    };
+}
+
+/**
+ * Returns true when two confidence intervals overlap
+ */
+export function intervalsOverlap(
+    a: { lower: number; upper: number },
+    b: { lower: number; upper: number }
+): boolean {
+    return a.lower <= b.upper && b.lower <= a.upper;
+}
@@ -0,0 +1,530 @@
+import { checkBackends } from "./availability";
+import { compareRuns } from "./baseline";
+import { configuredOptions, configuredWorkers, ensureConfig, getConfig, workloadSpec } from "./config";
+import { collectEnvironment, type Backend, type Environment } from "./environment";
+import { createReporters, type Reporter, type SuiteReport } from "./reporters";
+import {
+    benchmark,
+    errorOutcomes,
+    sweep,
+    SWEEP_CONCURRENCY,
+    type BenchmarkOptions,
+    type BenchmarkResult,
+    type FailedCase,
+    type SavedRun,
+    type SetupTimes,
+    type SkippedLibrary,
+} from "./utils";
+import { createWorkload, DEFAULT_SEED, describeWorkload, type Workload, type WorkloadSpec } from "./workload";
+import { benchmarkInWorkers } from "./workers";
+
+/**
+ * One benchmarked operation of a library. Only run() is timed; the hooks around it are
+ * reported separately as setup time.
+ */
+export interface OperationCase<Ctx, Prepared = any> {
+    // Once after setup (e.g. inserting workload.spec.keyspace rows)
+    beforeAll?: (ctx: Ctx, workload: Workload) => Promise<void> | void;
+    // Before every call, warmup included; what it returns is handed to that call's run()
+    // (e.g. the id of a row to delete). Must be synchronous when run() is
+    beforeEach?: (ctx: Ctx, workload: Workload) => Promise<Prepared> | Prepared;
+    // Keys, values and ids come from the workload, never Math.random()
+    run: (ctx: Ctx, workload: Workload, prepared: Prepared) => Promise<void> | void;
+    // After every call with the value its beforeEach returned, once the call has finished
+    afterEach?: (ctx: Ctx, workload: Workload, prepared: Prepared) => Promise<void> | void;
+    // Once after measuring, before teardown
+    afterAll?: (ctx: Ctx, workload: Workload) => Promise<void> | void;
+    options?: Partial<BenchmarkOptions>;
+    // Workload defaults of this operation (e.g. a YCSB distribution); config suite overrides still apply
+    workload?: Partial<WorkloadSpec>;
+}
+
+/**
+ * A library's implementation of a suite's operations.
+ * setup() runs once per case, so every operation starts from a fresh connection/database.
+ */
+export interface Adapter<Ctx = any> {
+    library: string;
+    // Server the library talks to; checked before the suite runs and skipped when unavailable
+    backend?: Backend;
+    // Throws when the library can't run here (e.g. a native module that doesn't load);
+    // checked before the suite runs, skipping the library with the error as reason
+    probe?: () => Promise<void> | void;
+    // Gets the case's workload for schema choices (e.g. payload columns); don't draw from it here
+    setup: (workload: Workload) => Promise<Ctx> | Ctx;
+    // Connects to what setup() created, without resetting it. Multi-worker cases run setup() and
+    // beforeAll once in the parent and connect() in each worker; required for suite.workers operations
+    connect?: (workload: Workload) => Promise<Ctx> | Ctx;
+    teardown?: (ctx: Ctx) => Promise<void> | void;
+    operations: Record<string, OperationCase<Ctx>>;
+}
+
+export interface Suite {
+    name: string;
+    title: string;
+    // Prefix of the saved results file (defaults to name)
+    resultsFile?: string;
+    // Operations in run/report order
+    operations: string[];
+    // Libraries in run/report order
+    adapters: Adapter[];
+    // Library the others are compared with (defaults to the first adapter)
+    baselineLibrary?: string;
+    options: Partial<BenchmarkOptions>;
+    sweep?: { operations: string[]; libraries?: string[]; levels?: number[] };
+    workers?: { operations: string[]; count: number };
+    // Printed when the suite fails
+    troubleshooting?: string[];
+    // Section heading and intro in the generated Markdown report
+    report?: { heading: string; description?: string };
+}
+
+export type CaseResult = Omit<BenchmarkResult, "operation" | "library">;
+
+export function defineAdapter<Ctx>(adapter: Adapter<Ctx>): Adapter<Ctx> {
+    return adapter;
+}
+
+export function defineSuite(suite: Suite): Suite {
+    if (suite.baselineLibrary && !suite.adapters.some((a) => a.library === suite.baselineLibrary)) {
+        throw new Error(`${suite.name}: baseline library "${suite.baselineLibrary}" is not one of its adapters`);
+    }
+    for (const adapter of suite.adapters) {
+        for (const operation of Object.keys(adapter.operations)) {
+            if (!suite.operations.includes(operation)) {
+                throw new Error(
+                    `${suite.name}: adapter "${adapter.library}" implements unknown operation "${operation}"`
+                );
+            }
+            if (suite.workers?.operations.includes(operation) && !adapter.connect) {
+                throw new Error(
+                    `${suite.name}: adapter "${adapter.library}" runs "${operation}" in workers but has no connect()`
+                );
+            }
+        }
+    }
+    return suite;
+}
+
+/**
+ * Runs one operation of one adapter: setup, beforeAll, benchmark, afterAll, teardown.
+ * Workers pass their index so each gets its own workload stream; they only connect() to
+ * what the parent set up (see runWorkers).
+ */
+export async function runCase(
+    suite: Suite,
+    adapter: Adapter,
+    operation: string,
+    overrides: Partial<BenchmarkOptions> = {},
+    worker?: number
+): Promise<CaseResult> {
+    return withCase(
+        suite,
+        adapter,
+        operation,
+        (fn, options) => benchmark(options.name, fn, options),
+        overrides,
+        worker
+    );
+}
+
+/**
+ * Runs one operation of one adapter at each concurrency level, sharing a single setup
+ */
+export async function runSweep(
+    suite: Suite,
+    adapter: Adapter,
+    operation: string,
+    levels: number[] = SWEEP_CONCURRENCY,
+    overrides: Partial<BenchmarkOptions> = {}
+): Promise<CaseResult[]> {
+    return withCase(suite, adapter, operation, (fn, options) => sweep(options.name, fn, options, levels), overrides);
+}
+
+/**
+ * Runs one operation of one adapter across Bun Workers. Setup and beforeAll run once here,
+ * so the workers measure the same data as the single-thread case and never reset it.
+ */
+export async function runWorkers(
+    suite: Suite,
+    adapter: Adapter,
+    operation: string,
+    count: number,
+    overrides: Partial<BenchmarkOptions> = {}
+): Promise<CaseResult> {
+    const target = { suite: suite.name, library: adapter.library, operation };
+    return withCase(
+        suite,
+        adapter,
+        operation,
+        (_fn, options) => benchmarkInWorkers(options.name, target, overrides, count),
+        overrides
+    );
+}
+
+export interface RunSuiteOptions {
+    overrides?: Partial<BenchmarkOptions>;
+    // Restrict the matrix to these operations / libraries (exact names)
+    operations?: string[];
+    libraries?: string[];
+    // Include the suite's concurrency sweeps and multi-worker runs (default true)
+    sweep?: boolean;
+    workers?: boolean;
+    // Output plugins (default: console table and JSON file)
+    reporters?: Reporter[];
+    // Directory for files written by reporters (defaults to ./results)
+    outDir?: string;
+    // Saved run to compare the results against
+    baseline?: { file: string; run: SavedRun; threshold: number };
+}
+
+/**
+ * A single scheduled run: matrix cell, concurrency sweep or multi-worker fan-out
+ */
+export interface PlannedCase {
+    kind: "matrix" | "sweep" | "workers";
+    operation: string;
+    adapter: Adapter;
+}
+
+/**
+ * Lists the cases runSuite would execute for the given selection
+ */
+export function planSuite(suite: Suite, options: RunSuiteOptions = {}): PlannedCase[] {
+    const selected = (operation: string) =>
+        !options.operations || options.operations.includes(operation);
+    const plan: PlannedCase[] = [];
+
+    for (const operation of suite.operations.filter(selected)) {
+        for (const adapter of adaptersFor(suite, operation, options.libraries)) {
+            plan.push({ kind: "matrix", operation, adapter });
+        }
+    }
+
+    if (suite.sweep && options.sweep !== false) {
+        for (const operation of suite.sweep.operations.filter(selected)) {
+            for (const adapter of adaptersFor(suite, operation, suite.sweep.libraries)) {
+                if (options.libraries && !options.libraries.includes(adapter.library)) continue;
+                plan.push({ kind: "sweep", operation, adapter });
+            }
+        }
+    }
+
+    if (suite.workers && options.workers !== false) {
+        for (const operation of suite.workers.operations.filter(selected)) {
+            for (const adapter of adaptersFor(suite, operation, options.libraries)) {
+                plan.push({ kind: "workers", operation, adapter });
+            }
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Measured results of a suite and the cases that failed instead
+ */
+export interface SuiteRun {
+    results: BenchmarkResult[];
+    failed: FailedCase[];
+}
+
+/**
+ * Runs the full operation × library matrix of a suite, then prints and saves the results.
+ * A failing case is recorded and reported, and the suite moves on to the next one.
+ */
+export async function runSuite(suite: Suite, options: RunSuiteOptions = {}): Promise<SuiteRun> {
+    const { reporters = createReporters() } = options;
+    const config = await ensureConfig();
+    // Config run settings apply under explicit (CLI) overrides
+    const overrides = { ...configuredOptions(config, suite.name), ...options.overrides };
+    const workerCount = configuredWorkers(config, suite.name) ?? suite.workers?.count ?? 1;
+    const workload = workloadSpec(config, suite.name);
+    const results: BenchmarkResult[] = [];
+    const failed: FailedCase[] = [];
+    let lastHeading = "";
+
+    // Skip libraries whose server can't be reached instead of failing the suite
+    // Open-loop runs ignore concurrency, so a sweep would repeat the same case at each level
+    const plan = planSuite(suite, overrides.rate !== undefined ? { ...options, sweep: false } : options);
+    const statuses = await checkBackends(plan.flatMap(({ adapter }) => (adapter.backend ? [adapter.backend] : [])));
+    const servers: Environment["servers"] = {};
+    for (const [backend, status] of statuses) {
+        servers[backend] = status.available ? status.version : null;
+    }
+    const skipped: SkippedLibrary[] = [];
+    for (const adapter of new Set(plan.map((c) => c.adapter))) {
+        const status = adapter.backend && statuses.get(adapter.backend);
+        const reason = status && !status.available ? status.reason : await probeAdapter(adapter);
+        if (reason) {
+            skipped.push({ library: adapter.library, reason });
+            console.log(`⏭️  ${adapter.library} skipped: ${reason}`);
+        }
+    }
+    const available = plan.filter((c) => !skipped.some((s) => s.library === c.adapter.library));
+    if (plan.length > 0 && available.length === 0) {
+        console.log(`⏭️  ${suite.title.replace(/ Results$/, "")} skipped: no backend available`);
+    }
+
+    // Operations with their own workload (e.g. YCSB distributions) print it when it changes
+    const suiteWorkload = describeWorkload(workload);
+    const caseWorkload = ({ adapter, operation }: PlannedCase) =>
+        describeWorkload(workloadSpec(config, suite.name, adapter.operations[operation]!.workload));
+    let lastWorkload = "";
+    if (available.some((c) => caseWorkload(c) === suiteWorkload)) {
+        console.log(`🎲 Workload: ${suiteWorkload}`);
+        lastWorkload = suiteWorkload;
+    }
+
+    try {
+        for (const { kind, operation, adapter } of available) {
+            const heading =
+                kind === "sweep"
+                    ? `📊 Running ${operation} concurrency sweep...`
+                    : kind === "workers"
+                      ? `📊 Running ${operation} tests across ${workerCount} workers...`
+                      : `📊 Running ${operation} tests...`;
+            if (heading !== lastHeading) {
+                console.log(heading);
+                lastHeading = heading;
+            }
+            const described = caseWorkload({ kind, operation, adapter });
+            if (described !== lastWorkload) {
+                console.log(`🎲 Workload: ${described}`);
+                lastWorkload = described;
+            }
+
+            const library = adapter.library;
+
+            try {
+                if (kind === "sweep") {
+                    const swept = await runSweep(suite, adapter, operation, suite.sweep!.levels, overrides);
+                    for (const result of swept) {
+                        results.push({ operation, library, ...result });
+                    }
+                } else if (kind === "workers") {
+                    const result = await runWorkers(suite, adapter, operation, workerCount, overrides);
+                    results.push({ operation, library, ...result });
+                } else {
+                    const result = await runCase(suite, adapter, operation, overrides);
+                    results.push({ operation, library, ...result });
+                }
+            } catch (error) {
+                const failure = failedCase(kind, operation, library, error);
+                failed.push(failure);
+                console.error(`❌ ${library} ${operation}${kind === "matrix" ? "" : ` (${kind})`} failed: ${failure.error}`);
+            }
+        }
+        if (failed.length > 0) printTroubleshooting(suite);
+
+        // Print and save results
+        const environment = collectEnvironment(servers);
+        const report: SuiteReport = { suite, results, skipped, failed, environment, workload, outDir: options.outDir };
+        if (options.baseline) {
+            const { file, run, threshold } = options.baseline;
+            const comparisons = compareRuns(run.results, results, { threshold });
+            report.baseline = { file, timestamp: run.timestamp, threshold, comparisons };
+        }
+        for (const reporter of reporters) {
+            await reporter.suite(report);
+        }
+
+        return { results, failed };
+    } catch (error) {
+        if (suite.troubleshooting) {
+            console.error(`❌ ${suite.title} error:`, error);
+            printTroubleshooting(suite);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Library a suite's results are compared with: the config's choice, the suite's, or its first adapter
+ */
+export function baselineLibrary(suite: Suite): string {
+    return getConfig().suites[suite.name]?.baselineLibrary ?? suite.baselineLibrary ?? suite.adapters[0]!.library;
+}
+
+/**
+ * Prefix of a suite's saved results files
+ */
+export function resultsPrefix(suite: Suite): string {
+    return suite.resultsFile ?? suite.name;
+}
+
+/**
+ * Helper: Adapters implementing an operation, optionally limited to some libraries
+ */
+function adaptersFor(suite: Suite, operation: string, libraries?: string[]): Adapter[] {
+    return suite.adapters.filter(
+        (a) => a.operations[operation] && (!libraries || libraries.includes(a.library))
+    );
+}
+
+/**
+ * Helper: Why an adapter can't run here, or null when its probe passes
+ */
+async function probeAdapter(adapter: Adapter): Promise<string | null> {
+    try {
+        await adapter.probe?.();
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Helper: Record of a case that threw, with the failed calls of the sample that stopped it
+ */
+function failedCase(kind: PlannedCase["kind"], operation: string, library: string, error: unknown): FailedCase {
+    const outcomes = errorOutcomes(error);
+    return {
+        operation,
+        library,
+        ...(kind !== "matrix" ? { kind } : {}),
+        error: error instanceof Error ? error.message : String(error),
+        errors: outcomes?.errors ?? 0,
+        timeouts: outcomes?.timeouts ?? 0,
+    };
+}
+
+/**
+ * Helper: Prints a suite's troubleshooting tips, if it has any
+ */
+function printTroubleshooting(suite: Suite) {
+    if (!suite.troubleshooting) return;
+    console.error("\nPlease check the following:");
+    suite.troubleshooting.forEach((tip, i) => console.error(`${i + 1}. ${tip}`));
+}
+
+/**
+ * Helper: Sets up an adapter, prepares the operation and tears down after measuring
+ */
+async function withCase<T extends CaseResult | CaseResult[]>(
+    suite: Suite,
+    adapter: Adapter,
+    operation: string,
+    measure: (fn: () => Promise<void> | void, options: BenchmarkOptions) => Promise<T>,
+    overrides: Partial<BenchmarkOptions>,
+    worker?: number
+): Promise<T> {
+    const op = adapter.operations[operation];
+    if (!op) {
+        throw new Error(`${suite.name}: "${adapter.library}" does not implement "${operation}"`);
+    }
+
+    const name = `${adapter.library} ${operation}`;
+    const options = { ...suite.options, ...op.options, ...overrides, name };
+    const seed = options.seed ?? DEFAULT_SEED;
+    // Same stream for every library of the case; the library name is deliberately not part of it
+    const stream = `${suite.name}/${operation}` + (worker !== undefined ? `/worker-${worker}` : "");
+    const spec = workloadSpec(getConfig(), suite.name, op.workload);
+    const workload = createWorkload(seed, stream, spec);
+    // Workers share what the parent set up
+    const shared = worker !== undefined;
+    if (shared && !adapter.connect) {
+        throw new Error(`${suite.name}: "${adapter.library}" has no connect() for workers`);
+    }
+    const setupStart = performance.now();
+    const ctx = shared ? await adapter.connect!(workload) : await adapter.setup(workload);
+
+    let result: T;
+    let beforeAll: number;
+    let teardownStart: number;
+    try {
+        if (!shared) await op.beforeAll?.(ctx, workload);
+        beforeAll = performance.now() - setupStart;
+        const { fn, hooks } = caseCalls(op, ctx, workload);
+        result = await measure(fn, {
+            ...options,
+            ...hooks,
+            seed,
+            // Warmup and calibration call counts differ per library, so measuring starts from the top
+            ready: async () => {
+                await options.ready?.();
+                workload.reset();
+            },
+        });
+        teardownStart = performance.now();
+        if (!shared) await op.afterAll?.(ctx, workload);
+    } finally {
+        await adapter.teardown?.(ctx);
+    }
+    const timed = withSetup(result, { beforeAll, afterAll: performance.now() - teardownStart });
+    return op.workload ? withWorkload(timed, spec) : timed;
+}
+
+/**
+ * Helper: The timed function of a case and its per-call hooks as benchmark options. Calls take
+ * beforeEach values in order; hooks run in chunks around the calls, so one is always ready.
+ * The hooks stay synchronous when the operation's are, so sync libraries keep their sync timing loop.
+ */
+function caseCalls<Ctx>(
+    op: OperationCase<Ctx>,
+    ctx: Ctx,
+    workload: Workload
+): { fn: () => Promise<void> | void; hooks: Partial<BenchmarkOptions> } {
+    if (!op.beforeEach && !op.afterEach) return { fn: () => op.run(ctx, workload, undefined), hooks: {} };
+
+    // Values waiting for their call, and those of finished calls waiting for afterEach
+    const prepared: unknown[] = [];
+    const finished: unknown[] = [];
+
+    const fn = () => {
+        const value = prepared.shift();
+        if (!op.afterEach) return op.run(ctx, workload, value);
+        let result: Promise<void> | void;
+        try {
+            result = op.run(ctx, workload, value);
+        } catch (error) {
+            finished.push(value);
+            throw error;
+        }
+        if (!(result instanceof Promise)) {
+            finished.push(value);
+            return result;
+        }
+        return result.finally(() => {
+            finished.push(value);
+        });
+    };
+
+    const beforeEach = () => {
+        const value = op.beforeEach!(ctx, workload);
+        if (!(value instanceof Promise)) {
+            prepared.push(value);
+            return;
+        }
+        return value.then((v) => {
+            prepared.push(v);
+        });
+    };
+
+    return {
+        fn,
+        hooks: {
+            ...(op.beforeEach ? { beforeEach } : {}),
+            ...(op.afterEach ? { afterEach: () => op.afterEach!(ctx, workload, finished.shift()) } : {}),
+        },
+    };
+}
+
+/**
+ * Helper: Records the workload a case ran with on its result(s)
+ */
+function withWorkload<T extends CaseResult | CaseResult[]>(result: T, workload: WorkloadSpec): T {
+    const add = (r: CaseResult): CaseResult => ({ ...r, workload });
+    return (Array.isArray(result) ? result.map(add) : add(result)) as T;
+}
+
+/**
+ * Helper: Adds a case's once-per-case setup times to its result(s); per-call hook times come from benchmark()
+ */
+function withSetup<T extends CaseResult | CaseResult[]>(result: T, times: Partial<SetupTimes>): T {
+    const add = (r: CaseResult): CaseResult => ({
+        ...r,
+        setup: { beforeAll: 0, beforeEach: 0, afterEach: 0, afterAll: 0, ...r.setup, ...times },
+    });
+    return (Array.isArray(result) ? result.map(add) : add(result)) as T;
+}
@@ -1,6 +1,21 @@
 import { writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
+import {
+    createHistogram,
+    fromSnapshot,
+    mergeHistograms,
+    recordValue,
+    summarizeLatency,
+    toSnapshot,
+    type Histogram,
+    type HistogramSnapshot,
+    type LatencyStats,
+} from "./histogram";
+import type { Environment } from "./environment";
+import { startResourceCapture, type ResourceUsage } from "./resources";
+import { intervalsOverlap, summarizeSamples, type SampleStats } from "./stats";
+import type { WorkloadSpec } from "./workload";
 
 export interface BenchmarkResult {
     operation: string;
@@ -9,14 +24,234 @@ export interface BenchmarkResult {
     duration: number;
     opsPerSecond: number;
     avgTimePerOp: number;
+    latency: LatencyStats;
+    histogram: HistogramSnapshot;
+    samples?: SampleStats;
+    concurrency?: number;
+    // One level of a concurrency sweep (set by sweep()); plain --concurrency runs leave it out
+    sweep?: boolean;
+    // Calls per deadline check, calibrated in duration mode
+    batchSize?: number;
+    // True when fn returned synchronously and ran in the sync loop
+    sync: boolean;
+    // Calls timed together by one pair of performance.now() reads
+    timerBatch: number;
+    // No-op harness cost (ms); perOp is removed from duration, latency from percentiles
+    overhead: HarnessOverhead;
+    // Process CPU, memory and GC cost of the measured samples
+    resources: ResourceUsage;
+    // Number of Bun Workers the case was fanned out to
+    workers?: number;
+    // Call outcomes over all measured samples (outliers included); iterations
+    // and throughput count successful calls only. Missing in older saved runs.
+    outcomes?: CallOutcomes;
+    // Workload generator seed the case ran with
+    seed?: number;
+    // Workload of the case when its operation overrides the suite's (e.g. a YCSB distribution);
+    // the saved run's `workload` applies otherwise
+    workload?: WorkloadSpec;
+    // Set for open-loop runs (see BenchmarkOptions.rate); `latency` is then corrected
+    openLoop?: OpenLoopStats;
+    // Untimed setup and cleanup around the measurement; missing in older saved runs
+    setup?: SetupTimes;
+}
+
+/**
+ * Time (ms) spent outside the timed region of a case
+ */
+export interface SetupTimes {
+    // Adapter setup and beforeAll, once per case
+    beforeAll: number;
+    // Per-call hooks, summed over warmup, calibration and samples
+    beforeEach: number;
+    afterEach: number;
+    // afterAll and adapter teardown, once per case
+    afterAll: number;
+}
+
+export interface OpenLoopStats {
+    // Calls per second scheduled, and completed successfully
+    targetRate: number;
+    achievedRate: number;
+    // Latency from each call's actual start, i.e. uncorrected; the gap to `latency` is time spent queued
+    serviceTime: LatencyStats;
+    serviceHistogram: HistogramSnapshot;
+    // Most calls in flight at once
+    maxInFlight: number;
+}
+
+export interface CallOutcomes {
+    successes: number;
+    errors: number;
+    // Calls abandoned after `timeout` ms (not counted in errors)
+    timeouts: number;
+    // Error count by type, e.g. { "Error ECONNRESET": 3 }
+    errorTypes: Record<string, number>;
+}
+
+export interface HarnessOverhead {
+    perOp: number;
+    latency: number;
+    subtracted: boolean;
 }
 
 export interface BenchmarkOptions {
     name: string;
-    iterations: number;
+    // Fixed number of calls per sample; ignored when `duration` is set
+    iterations?: number;
+    // Target wall time (ms) for the whole case, split evenly across samples
+    duration?: number;
     warmup?: number;
+    // Independent samples of `iterations` each; > 1 enables outlier rejection and CIs
+    samples?: number;
+    // Operations kept in flight at once (default 1 = serial); sync functions always run serially
+    concurrency?: number;
+    // Force the sync or async loop; detected from the first warmup call by default
+    sync?: boolean;
+    // Calls per chunk between deadline checks and hooks. Async loops read the timer once per
+    // chunk (latencies become per-chunk means when > 1); sync loops still time every call
+    timerBatch?: number;
+    // Subtract the measured no-op baseline from the results (default true)
+    subtractOverhead?: boolean;
+    // Awaited right before the measured samples (lines up parallel workers)
+    ready?: () => Promise<void>;
+    // Workload generator seed; recorded with the result
+    seed?: number;
+    // Per-call limit (ms) for async functions; slower calls count as timeouts and are abandoned
+    timeout?: number;
+    // Fraction of failed calls (errors + timeouts) tolerated per sample; 0 (default) rethrows the first error
+    maxErrorRate?: number;
+    // Untimed hooks around every call (warmup and calibration included); throughput then counts
+    // only time spent in calls. Hooks of synchronous functions must be synchronous too
+    beforeEach?: () => Promise<void> | void;
+    afterEach?: () => Promise<void> | void;
+    // Open loop: calls per second started on a fixed schedule, whether or not earlier ones finished.
+    // Latency counts from each call's scheduled start, so queueing behind slow calls is included
+    // (coordinated-omission correction); concurrency, batching and overhead subtraction don't apply
+    rate?: number;
+}
+
+/**
+ * Contents of a results file written by saveResults
+ */
+export interface SavedRun {
+    timestamp: string;
+    results: BenchmarkResult[];
+    summary: Record<string, any>;
+    // Missing in runs saved before environment capture existed
+    environment?: Environment;
+    // Libraries left out because their backend was unavailable
+    skipped?: SkippedLibrary[];
+    // Cases that stopped with an error instead of producing a result
+    failed?: FailedCase[];
+    // Missing in runs saved before workloads were configurable
+    workload?: WorkloadSpec;
+}
+
+export interface SkippedLibrary {
+    library: string;
+    reason: string;
+}
+
+/**
+ * A case that stopped with an error (e.g. over maxErrorRate); the rest of the suite still runs
+ */
+export interface FailedCase {
+    operation: string;
+    library: string;
+    // Set for concurrency sweeps and multi-worker runs
+    kind?: "sweep" | "workers";
+    error: string;
+    // Failed calls of the sample that stopped the case; 0 when it failed outside the calls (e.g. setup)
+    errors: number;
+    timeouts: number;
+}
+
+/**
+ * One library's throughput against the baseline library of its case
+ */
+export interface RelativeResult {
+    library: string;
+    opsPerSecond: number;
+    // See speedup()
+    speedup: number;
+    // False when the 95% CIs of the library and the baseline overlap
+    significant: boolean;
+}
+
+/**
+ * All libraries of one case (operation, concurrency, workers) against the baseline
+ */
+export interface RelativeCase {
+    operation: string;
+    baseline: string;
+    fastest: string;
+    // The fastest library leads the runner-up beyond the 95% CIs
+    conclusive: boolean;
+    // In library order
+    libraries: RelativeResult[];
+}
+
+export interface ComparisonOptions {
+    // Column order (defaults to first appearance)
+    libraries?: string[];
+    // Library every other is measured against (defaults to the first one)
+    baseline?: string;
+}
+
+interface TableCell {
+    text: string;
+    bold?: boolean;
+}
+
+export const SWEEP_CONCURRENCY = [1, 4, 16, 64, 256];
+
+// Calibrated batches take roughly this long, bounding deadline overshoot
+const CALIBRATION_BATCH_MS = 10;
+const MAX_BATCH_SIZE = 1_000_000;
+
+// Sync calls are cheap enough that per-call histogram updates would dominate: each chunk
+// only stores its calls' timestamps and records them after the chunk, outside the timed region
+const SYNC_TIMER_BATCH = 100;
+const OVERHEAD_ITERATIONS = 50_000;
+const OVERHEAD_REPEATS = 3;
+
+type SampleLimit = { iterations: number } | { duration: number; batchSize: number };
+type SampleRunner = (limit: SampleLimit) => Promise<SampleRun>;
+
+interface SampleRun {
+    // Successful calls
+    iterations: number;
+    duration: number;
+    opsPerSecond: number;
+    histogram: Histogram;
+    outcomes: CallOutcomes;
+}
+
+interface OpenLoopRun extends SampleRun {
+    serviceTime: Histogram;
+    maxInFlight: number;
+}
+
+// Per-call hooks of a run and the time spent in them
+interface CallHooks {
+    beforeEach?: () => Promise<void> | void;
+    afterEach?: () => Promise<void> | void;
+    time: { beforeEach: number; afterEach: number };
 }
 
+// What a failing call does to the run
+interface FailurePolicy {
+    name: string;
+    timeout?: number;
+    maxErrorRate: number;
+}
+
+// Rejection value of a call that ran past the timeout
+const TIMEOUT = Symbol("timeout");
+
+const overheadCache = new Map<string, Omit<HarnessOverhead, "subtracted">>();
+
 /**
  * Runs benchmark function and returns results
  */
@@ -25,208 +260,1100 @@ export async function benchmark(
     fn: () => Promise<void> | void,
     options: BenchmarkOptions
 ): Promise<Omit<BenchmarkResult, "operation" | "library">> {
-    const { iterations, warmup = 100 } = options;
+    const {
+        iterations,
+        duration: targetDuration,
+        warmup = 100,
+        samples = 1,
+        subtractOverhead = true,
+        maxErrorRate = 0,
+    } = options;
+
+    if (targetDuration === undefined && iterations === undefined) {
+        throw new Error(`${name}: either iterations or duration must be set`);
+    }
+    const policy: FailurePolicy = { name, timeout: options.timeout, maxErrorRate };
+
+    const hooks: CallHooks | null =
+        options.beforeEach || options.afterEach
+            ? { beforeEach: options.beforeEach, afterEach: options.afterEach, time: { beforeEach: 0, afterEach: 0 } }
+            : null;
+
+    // Warmup calls time out and fail like measured ones, so a stalled backend stops the case here
+    // instead of hanging. The first call also tells sync and async functions apart (async
+    // functions never throw synchronously).
+    const warmupPolicy = { ...policy, name: `${name} (warmup)` };
+    const warmupOutcomes = emptyOutcomes();
+    let detected = options.sync;
+    for (let i = 0; i < Math.max(1, warmup); i++) {
+        if (hooks) await runHooks(hooks, "beforeEach", 1);
+        try {
+            const result = fn();
+            detected ??= !isPromiseLike(result);
+            if (isPromiseLike(result)) {
+                await (policy.timeout ? callWithTimeout(() => result, policy.timeout) : result);
+            }
+            warmupOutcomes.successes++;
+        } catch (error) {
+            detected ??= true;
+            recordFailure(warmupOutcomes, error, warmupPolicy);
+        }
+        if (hooks) await runHooks(hooks, "afterEach", 1);
+    }
+    checkErrorRate(warmupPolicy, warmupOutcomes);
+    const sync = detected!;
+
+    if (options.rate !== undefined) {
+        return benchmarkOpenLoop(fn, sync, options, policy, hooks);
+    }
 
-    // Warmup
-    for (let i = 0; i < warmup; i++) {
-        await fn();
+    const concurrency = sync ? 1 : options.concurrency ?? 1;
+    const timerBatch = options.timerBatch ?? (sync ? SYNC_TIMER_BATCH : 1);
+    const runner = createRunner(fn, sync, concurrency, timerBatch, policy, hooks);
+
+    const baseline = await measureOverhead(sync, concurrency, timerBatch);
+    const overhead = { ...baseline, subtracted: subtractOverhead };
+
+    let limit: SampleLimit;
+    let batchSize: number | undefined;
+    if (targetDuration !== undefined) {
+        batchSize = await calibrateBatchSize(runner, concurrency * timerBatch);
+        limit = { duration: targetDuration / samples, batchSize };
+    } else {
+        limit = { iterations: iterations! };
     }
 
+    await options.ready?.();
+
     // Actual benchmark
-    const start = performance.now();
+    const runs: SampleRun[] = [];
+    const stopCapture = startResourceCapture();
+    for (let s = 0; s < samples; s++) {
+        const run = await runner(limit);
+        checkErrorRate(policy, run.outcomes);
+        runs.push(subtractOverhead ? withoutOverhead(run, overhead.perOp) : run);
+    }
+    const resources = stopCapture(runs.reduce((sum, r) => sum + r.iterations, 0));
+    const outcomes = runs.reduce((total, r) => mergeOutcomes(total, r.outcomes), emptyOutcomes());
+
+    const extras = {
+        ...(batchSize !== undefined ? { batchSize } : {}),
+        ...(options.concurrency ? { concurrency } : {}),
+        sync,
+        timerBatch,
+        overhead,
+        resources,
+        outcomes,
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...(hooks ? { setup: setupTimes(hooks) } : {}),
+    };
+    const latencyOffset = subtractOverhead ? overhead.latency : 0;
+
+    if (runs.length === 1) {
+        const run = runs[0]!;
+        return {
+            iterations: run.iterations,
+            duration: run.duration,
+            opsPerSecond: run.opsPerSecond,
+            avgTimePerOp: run.duration / run.iterations,
+            latency: shiftLatency(summarizeLatency(run.histogram), latencyOffset),
+            histogram: toSnapshot(run.histogram),
+            ...extras,
+        };
+    }
+
+    // Outlier samples are dropped from every reported figure
+    const stats = summarizeSamples(runs.map((r) => r.opsPerSecond));
+    const kept = runs.filter((r) => !stats.outliers.includes(r.opsPerSecond));
+    const histogram = kept.reduce((h, r) => mergeHistograms(h, r.histogram), createHistogram());
+    const duration = kept.reduce((sum, r) => sum + r.duration, 0);
+    const totalIterations = kept.reduce((sum, r) => sum + r.iterations, 0);
+
+    return {
+        iterations: totalIterations,
+        duration,
+        opsPerSecond: stats.mean,
+        avgTimePerOp: duration / totalIterations,
+        latency: shiftLatency(summarizeLatency(histogram), latencyOffset),
+        histogram: toSnapshot(histogram),
+        samples: stats,
+        ...extras,
+    };
+}
+
+/**
+ * Merges results of the same case measured in parallel (e.g. by several workers)
+ */
+export function mergeResults(
+    results: Omit<BenchmarkResult, "operation" | "library">[],
+    resources: ResourceUsage
+): Omit<BenchmarkResult, "operation" | "library"> {
+    const first = results[0];
+    if (!first) {
+        throw new Error("mergeResults: no results to merge");
+    }
+
+    const histogram = results.reduce(
+        (h, r) => mergeHistograms(h, fromSnapshot(r.histogram)),
+        createHistogram()
+    );
+    const iterations = results.reduce((sum, r) => sum + r.iterations, 0);
+    // Parallel runs overlap, so wall time is the longest one and throughput adds up
+    const duration = Math.max(...results.map((r) => r.duration));
+    const opsPerSecond = results.reduce((sum, r) => sum + r.opsPerSecond, 0);
+    const latencyOffset = first.overhead.subtracted ? first.overhead.latency : 0;
+
+    return {
+        iterations,
+        duration,
+        opsPerSecond,
+        avgTimePerOp: duration / iterations,
+        latency: shiftLatency(summarizeLatency(histogram), latencyOffset),
+        histogram: toSnapshot(histogram),
+        ...(first.concurrency ? { concurrency: first.concurrency } : {}),
+        ...(first.batchSize !== undefined ? { batchSize: first.batchSize } : {}),
+        sync: first.sync,
+        timerBatch: first.timerBatch,
+        overhead: first.overhead,
+        resources,
+        workers: results.length,
+        ...(first.seed !== undefined ? { seed: first.seed } : {}),
+        outcomes: results.reduce((total, r) => mergeOutcomes(total, r.outcomes ?? emptyOutcomes()), emptyOutcomes()),
+        ...(first.openLoop ? { openLoop: mergeOpenLoop(results.map((r) => r.openLoop!)) } : {}),
+        ...(first.setup ? { setup: mergeSetup(results.map((r) => r.setup!)) } : {}),
+    };
+}
+
+/**
+ * Runs the same benchmark at each concurrency level to build a throughput/latency curve
+ */
+export async function sweep(
+    name: string,
+    fn: () => Promise<void> | void,
+    options: Omit<BenchmarkOptions, "concurrency">,
+    levels: number[] = SWEEP_CONCURRENCY
+): Promise<Omit<BenchmarkResult, "operation" | "library">[]> {
+    const results: Omit<BenchmarkResult, "operation" | "library">[] = [];
 
-    for (let i = 0; i < iterations; i++) {
-        await fn();
+    for (const concurrency of levels) {
+        const result = await benchmark(`${name} (concurrency ${concurrency})`, fn, { ...options, concurrency });
+        results.push({ ...result, sweep: true });
     }
 
-    const end = performance.now();
-    const duration = end - start;
-    const opsPerSecond = (iterations / duration) * 1000;
-    const avgTimePerOp = duration / iterations;
+    return results;
+}
+
+/**
+ * Helper: benchmark() in open-loop mode: each sample starts rate × sample duration calls
+ * (or `iterations`) on schedule
+ */
+async function benchmarkOpenLoop(
+    fn: () => Promise<void> | void,
+    sync: boolean,
+    options: BenchmarkOptions,
+    policy: FailurePolicy,
+    hooks: CallHooks | null
+): Promise<Omit<BenchmarkResult, "operation" | "library">> {
+    const rate = options.rate!;
+    const samples = options.samples ?? 1;
+    const calls =
+        options.duration !== undefined
+            ? Math.max(1, Math.round((rate * options.duration) / samples / 1000))
+            : options.iterations!;
+
+    await options.ready?.();
+
+    const runs: OpenLoopRun[] = [];
+    const stopCapture = startResourceCapture();
+    for (let s = 0; s < samples; s++) {
+        const run = await runOpenLoopSample(fn, sync, calls, rate, policy, hooks);
+        checkErrorRate(policy, run.outcomes);
+        runs.push(run);
+    }
+    const resources = stopCapture(runs.reduce((sum, r) => sum + r.iterations, 0));
+    const outcomes = runs.reduce((total, r) => mergeOutcomes(total, r.outcomes), emptyOutcomes());
+
+    // Outlier samples are dropped as in closed-loop runs
+    const stats = runs.length > 1 ? summarizeSamples(runs.map((r) => r.opsPerSecond)) : undefined;
+    const kept = stats ? runs.filter((r) => !stats.outliers.includes(r.opsPerSecond)) : runs;
+    const histogram = kept.reduce((h, r) => mergeHistograms(h, r.histogram), createHistogram());
+    const serviceTime = kept.reduce((h, r) => mergeHistograms(h, r.serviceTime), createHistogram());
+    const duration = kept.reduce((sum, r) => sum + r.duration, 0);
+    const iterations = kept.reduce((sum, r) => sum + r.iterations, 0);
+    const opsPerSecond = stats?.mean ?? runs[0]!.opsPerSecond;
 
     return {
         iterations,
         duration,
         opsPerSecond,
-        avgTimePerOp,
+        avgTimePerOp: duration / iterations,
+        latency: summarizeLatency(histogram),
+        histogram: toSnapshot(histogram),
+        ...(stats ? { samples: stats } : {}),
+        sync,
+        timerBatch: 1,
+        // The schedule sets the pace, so there is no harness cost to take out
+        overhead: { perOp: 0, latency: 0, subtracted: false },
+        resources,
+        outcomes,
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...(hooks ? { setup: setupTimes(hooks) } : {}),
+        openLoop: {
+            targetRate: rate,
+            achievedRate: opsPerSecond,
+            serviceTime: summarizeLatency(serviceTime),
+            serviceHistogram: toSnapshot(serviceTime),
+            maxInFlight: Math.max(...kept.map((r) => r.maxInFlight)),
+        },
+    };
+}
+
+/**
+ * Helper: Open-loop stats of parallel runs; their rates add up
+ */
+function mergeOpenLoop(stats: OpenLoopStats[]): OpenLoopStats {
+    const serviceTime = stats.reduce(
+        (h, s) => mergeHistograms(h, fromSnapshot(s.serviceHistogram)),
+        createHistogram()
+    );
+    return {
+        targetRate: stats.reduce((sum, s) => sum + s.targetRate, 0),
+        achievedRate: stats.reduce((sum, s) => sum + s.achievedRate, 0),
+        serviceTime: summarizeLatency(serviceTime),
+        serviceHistogram: toSnapshot(serviceTime),
+        maxInFlight: stats.reduce((sum, s) => sum + s.maxInFlight, 0),
+    };
+}
+
+/**
+ * Helper: Setup times of parallel runs; once-per-case steps overlap, per-call hooks add up
+ */
+function mergeSetup(times: SetupTimes[]): SetupTimes {
+    return {
+        beforeAll: Math.max(...times.map((t) => t.beforeAll)),
+        beforeEach: times.reduce((sum, t) => sum + t.beforeEach, 0),
+        afterEach: times.reduce((sum, t) => sum + t.afterEach, 0),
+        afterAll: Math.max(...times.map((t) => t.afterAll)),
+    };
+}
+
+/**
+ * Helper: Builds the timing loop matching the function kind
+ */
+function createRunner(
+    fn: () => Promise<void> | void,
+    sync: boolean,
+    concurrency: number,
+    timerBatch: number,
+    policy: FailurePolicy = { name: "no-op", maxErrorRate: 0 },
+    hooks: CallHooks | null = null
+): SampleRunner {
+    return sync
+        ? async (limit) => runSyncSample(fn, limit, timerBatch, policy, hooks)
+        : (limit) => runSample(fn, limit, concurrency, timerBatch, policy, hooks);
+}
+
+/**
+ * Helper: Measures the harness cost of a no-op with the same loop settings (cached)
+ */
+async function measureOverhead(
+    sync: boolean,
+    concurrency: number,
+    timerBatch: number
+): Promise<Omit<HarnessOverhead, "subtracted">> {
+    const key = `${sync}:${concurrency}:${timerBatch}`;
+    const cached = overheadCache.get(key);
+    if (cached) return cached;
+
+    const runner = createRunner(sync ? () => {} : async () => {}, sync, concurrency, timerBatch);
+    let perOp = Infinity;
+    let latency = Infinity;
+
+    // Minimum of a few repeats filters out scheduler and GC noise
+    for (let i = 0; i < OVERHEAD_REPEATS; i++) {
+        const run = await runner({ iterations: OVERHEAD_ITERATIONS });
+        perOp = Math.min(perOp, run.duration / run.iterations);
+        latency = Math.min(latency, summarizeLatency(run.histogram).mean);
+    }
+
+    const overhead = { perOp, latency };
+    overheadCache.set(key, overhead);
+    return overhead;
+}
+
+/**
+ * Helper: Removes the no-op cost from a sample, unless it would exceed the sample itself
+ */
+function withoutOverhead(run: SampleRun, perOp: number): SampleRun {
+    const duration = run.duration - perOp * run.iterations;
+    if (duration <= 0) return run;
+
+    return {
+        ...run,
+        duration,
+        opsPerSecond: (run.iterations / duration) * 1000,
+    };
+}
+
+/**
+ * Helper: Subtracts a constant offset from latency percentiles
+ */
+function shiftLatency(stats: LatencyStats, offset: number): LatencyStats {
+    const shift = (v: number) => Math.max(0, v - offset);
+
+    return {
+        ...stats,
+        min: shift(stats.min),
+        p50: shift(stats.p50),
+        p90: shift(stats.p90),
+        p99: shift(stats.p99),
+        p999: shift(stats.p999),
+        max: shift(stats.max),
+        mean: shift(stats.mean),
+    };
+}
+
+/**
+ * Helper: Finds how many calls fit in CALIBRATION_BATCH_MS by doubling the batch
+ */
+async function calibrateBatchSize(runner: SampleRunner, initialSize: number): Promise<number> {
+    let size = initialSize;
+
+    while (size < MAX_BATCH_SIZE) {
+        const { duration } = await runner({ iterations: size });
+        if (duration >= CALIBRATION_BATCH_MS) {
+            return Math.max(1, Math.round((size * CALIBRATION_BATCH_MS) / duration));
+        }
+        size *= 2;
+    }
+
+    return MAX_BATCH_SIZE;
+}
+
+/**
+ * Helper: Hands out the number of calls to time together next; 0 ends the sample
+ */
+function createChunker(limit: SampleLimit, timerBatch: number, start: number): () => number {
+    // Iteration limits are counted down per call, time limits checked once per batch
+    let remaining = "iterations" in limit ? limit.iterations : 0;
+
+    return () => {
+        if (remaining === 0) {
+            if ("iterations" in limit || performance.now() - start >= limit.duration) return 0;
+            remaining = limit.batchSize;
+        }
+        const n = Math.min(timerBatch, remaining);
+        remaining -= n;
+        return n;
+    };
+}
+
+/**
+ * Helper: Times a single sample, `concurrency` calls at a time, until the limit is reached
+ */
+async function runSample(
+    fn: () => Promise<void> | void,
+    limit: SampleLimit,
+    concurrency: number,
+    timerBatch: number,
+    policy: FailurePolicy,
+    hooks: CallHooks | null
+): Promise<SampleRun> {
+    const histogram = createHistogram();
+    const outcomes = emptyOutcomes();
+    let completed = 0;
+    // Time spent in calls, summed over lanes (used instead of wall time when hooks run)
+    let timed = 0;
+    const call = policy.timeout ? () => callWithTimeout(fn, policy.timeout!) : fn;
+
+    // Each lane picks up the next chunk as soon as its previous one finishes
+    const lane = async (next: () => number) => {
+        for (let n = next(); n > 0; n = next()) {
+            if (hooks) await runHooks(hooks, "beforeEach", n);
+            let succeeded = 0;
+            const chunkStart = performance.now();
+            for (let i = 0; i < n; i++) {
+                try {
+                    await call();
+                    succeeded++;
+                } catch (error) {
+                    recordFailure(outcomes, error, policy);
+                }
+            }
+            const elapsed = performance.now() - chunkStart;
+            timed += elapsed;
+            // Latency covers successful calls only
+            if (succeeded > 0) recordValue(histogram, elapsed / n, succeeded);
+            completed += succeeded;
+            if (hooks) await runHooks(hooks, "afterEach", n);
+        }
+    };
+
+    const lanes =
+        "iterations" in limit
+            ? Math.min(concurrency, Math.ceil(limit.iterations / timerBatch))
+            : concurrency;
+    const start = performance.now();
+    const next = createChunker(limit, timerBatch, start);
+
+    await Promise.all(Array.from({ length: lanes }, () => lane(next)));
+
+    // Hooks run between the timed chunks, so only the lanes' call time counts
+    const duration = hooks ? timed / lanes : performance.now() - start;
+    outcomes.successes = completed;
+
+    return {
+        iterations: completed,
+        duration,
+        opsPerSecond: (completed / duration) * 1000,
+        histogram,
+        outcomes,
+    };
+}
+
+/**
+ * Helper: Same as runSample without awaiting, for synchronous functions (which can't time out)
+ */
+function runSyncSample(
+    fn: () => Promise<void> | void,
+    limit: SampleLimit,
+    timerBatch: number,
+    policy: FailurePolicy,
+    hooks: CallHooks | null
+): SampleRun {
+    const histogram = createHistogram();
+    const outcomes = emptyOutcomes();
+    let completed = 0;
+    let timed = 0;
+    // End time of each call of the chunk, negated for failed calls
+    const ends = new Float64Array(timerBatch);
+
+    const start = performance.now();
+    const next = createChunker(limit, timerBatch, start);
+
+    for (let n = next(); n > 0; n = next()) {
+        if (hooks) runSyncHooks(hooks, "beforeEach", n);
+        const chunkStart = performance.now();
+        for (let i = 0; i < n; i++) {
+            try {
+                fn();
+                ends[i] = performance.now();
+            } catch (error) {
+                ends[i] = -performance.now();
+                recordFailure(outcomes, error, policy);
+            }
+        }
+        const chunkEnd = performance.now();
+        timed += chunkEnd - chunkStart;
+
+        // Latency of each call from consecutive timestamps; failed calls only move the start on
+        let previous = chunkStart;
+        for (let i = 0; i < n; i++) {
+            const end = ends[i]!;
+            if (end < 0) {
+                previous = -end;
+                continue;
+            }
+            recordValue(histogram, end - previous, 1);
+            previous = end;
+            completed++;
+        }
+        if (hooks) runSyncHooks(hooks, "afterEach", n);
+    }
+
+    // Histogram updates and hooks run between the timed chunks, so only the call time counts
+    const duration = timed;
+    outcomes.successes = completed;
+
+    return {
+        iterations: completed,
+        duration,
+        opsPerSecond: (completed / duration) * 1000,
+        histogram,
+        outcomes,
+    };
+}
+
+/**
+ * Helper: Starts `calls` calls at `rate` per second on a fixed schedule and times each from its
+ * scheduled start. Calls behind schedule start right away instead of waiting for earlier ones,
+ * so a stall shows up in the latency of every call queued behind it.
+ */
+async function runOpenLoopSample(
+    fn: () => Promise<void> | void,
+    sync: boolean,
+    calls: number,
+    rate: number,
+    policy: FailurePolicy,
+    hooks: CallHooks | null
+): Promise<OpenLoopRun> {
+    const histogram = createHistogram();
+    const serviceTime = createHistogram();
+    const outcomes = emptyOutcomes();
+    const call = policy.timeout ? () => callWithTimeout(fn, policy.timeout!) : fn;
+    const interval = 1000 / rate;
+    let completed = 0;
+    // Calls in flight; they never reject, failures are recorded inside
+    const pending = new Set<Promise<void>>();
+    // Sync calls run one at a time
+    let maxInFlight = sync ? 1 : 0;
+    // First error that ends the sample (errors not tolerated)
+    let fatal: { error: unknown } | null = null;
+
+    const succeeded = (scheduled: number, started: number) => {
+        const end = performance.now();
+        recordValue(histogram, end - scheduled);
+        recordValue(serviceTime, end - started);
+        completed++;
+    };
+    const failed = (error: unknown) => {
+        try {
+            recordFailure(outcomes, error, policy);
+        } catch (e) {
+            fatal ??= { error: e };
+        }
+    };
+
+    const start = performance.now();
+    for (let i = 0; i < calls && !fatal; i++) {
+        const scheduled = start + i * interval;
+        // Hooks run ahead of the schedule; a slow beforeEach delays the calls behind it
+        if (hooks) {
+            if (sync) runSyncHooks(hooks, "beforeEach", 1);
+            else await runHooks(hooks, "beforeEach", 1);
+        }
+        await waitUntil(scheduled);
+        const started = performance.now();
+
+        if (sync) {
+            try {
+                fn();
+                succeeded(scheduled, started);
+            } catch (error) {
+                failed(error);
+            }
+            if (hooks) runSyncHooks(hooks, "afterEach", 1);
+            continue;
+        }
+
+        const task = (async () => {
+            try {
+                await call();
+                succeeded(scheduled, started);
+            } catch (error) {
+                failed(error);
+            }
+            if (hooks) {
+                try {
+                    await runHooks(hooks, "afterEach", 1);
+                } catch (error) {
+                    fatal ??= { error };
+                }
+            }
+        })();
+        pending.add(task);
+        maxInFlight = Math.max(maxInFlight, pending.size);
+        task.then(() => pending.delete(task));
+    }
+    await Promise.all(pending);
+    if (fatal) throw (fatal as { error: unknown }).error;
+
+    // Each call owns one interval of the schedule: measuring to the last completion alone would
+    // count n calls over n - 1 intervals and put a library that keeps up above the target rate
+    const duration = Math.max(performance.now() - start, calls * interval);
+    outcomes.successes = completed;
+
+    return {
+        iterations: completed,
+        duration,
+        opsPerSecond: (completed / duration) * 1000,
+        histogram,
+        outcomes,
+        serviceTime,
+        maxInFlight,
+    };
+}
+
+/**
+ * Helper: Runs a per-call hook n times, adding up the time spent
+ */
+async function runHooks(hooks: CallHooks, name: "beforeEach" | "afterEach", n: number) {
+    const hook = hooks[name];
+    if (!hook) return;
+    const start = performance.now();
+    for (let i = 0; i < n; i++) await hook();
+    hooks.time[name] += performance.now() - start;
+}
+
+/**
+ * Helper: runHooks for synchronous functions, whose hooks must not return promises
+ */
+function runSyncHooks(hooks: CallHooks, name: "beforeEach" | "afterEach", n: number) {
+    const hook = hooks[name];
+    if (!hook) return;
+    const start = performance.now();
+    for (let i = 0; i < n; i++) {
+        if (isPromiseLike(hook())) {
+            throw new Error(`${name} of a synchronous operation must be synchronous`);
+        }
+    }
+    hooks.time[name] += performance.now() - start;
+}
+
+/**
+ * Helper: Setup times of the per-call hooks; withCase fills in beforeAll and afterAll
+ */
+function setupTimes(hooks: CallHooks): SetupTimes {
+    return { beforeAll: 0, ...hooks.time, afterAll: 0 };
+}
+
+/**
+ * Helper: Waits until a performance.now() time, sleeping while it is more than a millisecond
+ * away. Yields to the event loop at least once, so calls in flight complete on time.
+ */
+async function waitUntil(time: number) {
+    do {
+        const remaining = time - performance.now();
+        if (remaining > 1) await new Promise((resolve) => setTimeout(resolve, remaining - 1));
+        else await new Promise((resolve) => setImmediate(resolve));
+    } while (performance.now() < time);
+}
+
+/**
+ * Helper: Calls fn, rejecting with TIMEOUT when it doesn't settle within `ms`
+ */
+function callWithTimeout(fn: () => Promise<void> | void, ms: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(TIMEOUT), ms);
+    });
+    return Promise.race([Promise.resolve().then(fn), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Helper: Counts a failed call, or rethrows it when errors aren't tolerated
+ */
+function recordFailure(outcomes: CallOutcomes, error: unknown, policy: FailurePolicy) {
+    if (error === TIMEOUT) {
+        outcomes.timeouts++;
+    } else {
+        outcomes.errors++;
+        const type = errorType(error);
+        outcomes.errorTypes[type] = (outcomes.errorTypes[type] ?? 0) + 1;
+    }
+    if (policy.maxErrorRate === 0) {
+        const reason = error === TIMEOUT ? new Error(`${policy.name}: call timed out after ${policy.timeout} ms`) : error;
+        throw withOutcomes(reason, outcomes);
+    }
+}
+
+/**
+ * Helper: Throws when a sample failed more calls than the policy allows, or all of them
+ */
+function checkErrorRate(policy: FailurePolicy, outcomes: CallOutcomes) {
+    const failed = outcomes.errors + outcomes.timeouts;
+    if (failed === 0) return;
+
+    const rate = failed / (failed + outcomes.successes);
+    if (outcomes.successes === 0 || rate > policy.maxErrorRate) {
+        throw withOutcomes(
+            new Error(
+                `${policy.name}: ${(rate * 100).toFixed(1)}% of calls failed ` +
+                    `(max ${(policy.maxErrorRate * 100).toFixed(1)}%): ${describeFailures(outcomes)}`
+            ),
+            outcomes
+        );
+    }
+}
+
+/**
+ * Helper: Error name plus code when present, e.g. "Error ECONNREFUSED"
+ */
+function errorType(error: unknown): string {
+    if (!(error instanceof Error)) return typeof error;
+    const code = (error as { code?: unknown }).code;
+    return code !== undefined ? `${error.name} ${code}` : error.name;
+}
+
+/**
+ * Helper: Outcomes of a run without calls
+ */
+function emptyOutcomes(): CallOutcomes {
+    return { successes: 0, errors: 0, timeouts: 0, errorTypes: {} };
+}
+
+/**
+ * Helper: Adds up the outcomes of two runs
+ */
+function mergeOutcomes(a: CallOutcomes, b: CallOutcomes): CallOutcomes {
+    const errorTypes = { ...a.errorTypes };
+    for (const [type, count] of Object.entries(b.errorTypes)) {
+        errorTypes[type] = (errorTypes[type] ?? 0) + count;
+    }
+    return {
+        successes: a.successes + b.successes,
+        errors: a.errors + b.errors,
+        timeouts: a.timeouts + b.timeouts,
+        errorTypes,
     };
 }
 
+/**
+ * Attaches the call outcomes of the sample an error stopped (see errorOutcomes); other values pass through
+ */
+export function withOutcomes(error: unknown, outcomes: CallOutcomes): unknown {
+    return error instanceof Error ? Object.assign(error, { outcomes: { ...outcomes } }) : error;
+}
+
+/**
+ * Call outcomes carried by an error thrown from a benchmark, if any
+ */
+export function errorOutcomes(error: unknown): CallOutcomes | undefined {
+    return error instanceof Error ? (error as { outcomes?: CallOutcomes }).outcomes : undefined;
+}
+
+/**
+ * Error types and timeouts of a result, e.g. "Error ECONNRESET × 3, timeouts × 2"
+ */
+export function describeFailures(outcomes: CallOutcomes): string {
+    const parts = Object.entries(outcomes.errorTypes).map(([type, count]) => `${type} × ${count}`);
+    if (outcomes.timeouts > 0) parts.push(`timeouts × ${outcomes.timeouts}`);
+    return parts.join(", ");
+}
+
 /**
  * Prints results to console as table
  */
-export function printResults(results: BenchmarkResult[], title: string) {
+export function printResults(results: BenchmarkResult[], title: string, options: ComparisonOptions = {}) {
     console.log(`\n${"=".repeat(80)}`);
     console.log(`${title}`);
     console.log("=".repeat(80));
 
+    const failures = results.some((r) => r.outcomes && r.outcomes.errors + r.outcomes.timeouts > 0);
+    const setup = results.some((r) => r.setup);
     const formatted = results.map((r) => ({
         Operation: r.operation,
         Library: r.library,
+        ...(r.concurrency ? { Concurrency: r.concurrency } : {}),
+        ...(r.workers ? { Workers: r.workers } : {}),
         Iterations: r.iterations.toLocaleString(),
         "Duration (ms)": r.duration.toFixed(2),
         "Ops/sec": r.opsPerSecond.toFixed(2),
+        "±95% CI": r.samples
+            ? ((r.samples.ci95.upper - r.samples.ci95.lower) / 2).toFixed(2)
+            : "-",
+        "CV (%)": r.samples ? (r.samples.cv * 100).toFixed(2) : "-",
         "Avg (ms)": r.avgTimePerOp.toFixed(4),
+        // Nanoseconds: sync no-op costs are far below what ms with a few decimals can show
+        "Overhead (ns)": (r.overhead.perOp * 1e6).toFixed(1),
+        "p50 (ms)": r.latency.p50.toFixed(4),
+        "p90 (ms)": r.latency.p90.toFixed(4),
+        "p99 (ms)": r.latency.p99.toFixed(4),
+        "p99.9 (ms)": r.latency.p999.toFixed(4),
+        "Max (ms)": r.latency.max.toFixed(4),
+        "StdDev (ms)": r.latency.stddev.toFixed(4),
+        "Ops/CPU-ms": r.resources.opsPerCpuMs.toFixed(1),
+        "Bytes/op": r.resources.bytesPerOp.toFixed(0),
+        ...(failures ? { Errors: r.outcomes?.errors ?? 0, Timeouts: r.outcomes?.timeouts ?? 0 } : {}),
+        // Untimed: once-per-case setup and teardown, and the per-call hooks
+        ...(setup
+            ? {
+                  "Setup (ms)": r.setup ? (r.setup.beforeAll + r.setup.afterAll).toFixed(2) : "-",
+                  "Hooks (ms)": r.setup ? (r.setup.beforeEach + r.setup.afterEach).toFixed(2) : "-",
+              }
+            : {}),
     }));
 
     console.table(formatted);
 
+    if (failures) {
+        console.log("\nFailed calls (excluded from throughput and latency):");
+        for (const r of results) {
+            if (!r.outcomes || r.outcomes.errors + r.outcomes.timeouts === 0) continue;
+            const calls = r.outcomes.successes + r.outcomes.errors + r.outcomes.timeouts;
+            const rate = (((r.outcomes.errors + r.outcomes.timeouts) / calls) * 100).toFixed(2);
+            console.log(`  ${caseLabel(r)} / ${r.library}: ${rate}% - ${describeFailures(r.outcomes)}`);
+        }
+    }
+
+    const openLoop = results.filter((r) => r.openLoop);
+    if (openLoop.length > 0) {
+        console.log("\nOpen loop (latency from each call's scheduled start; service time from its actual start):");
+        let behind = false;
+        const rows = openLoop.map((r) => {
+            const { targetRate, achievedRate, serviceTime, maxInFlight } = r.openLoop!;
+            // Below 95% of the target the library couldn't keep up and calls queued
+            const lagging = achievedRate < targetRate * 0.95;
+            behind ||= lagging;
+            const cells: Record<string, TableCell> = {
+                Case: { text: `${caseLabel(r)} / ${r.library}` },
+                "Target/s": { text: targetRate.toFixed(0) },
+                "Achieved/s": { text: `${lagging ? "! " : ""}${achievedRate.toFixed(0)}`, bold: lagging },
+                "p50 (ms)": { text: r.latency.p50.toFixed(4) },
+                "p99 (ms)": { text: r.latency.p99.toFixed(4) },
+                "p99.9 (ms)": { text: r.latency.p999.toFixed(4) },
+                "Service p99 (ms)": { text: serviceTime.p99.toFixed(4) },
+                "Max in flight": { text: String(maxInFlight) },
+            };
+            return cells;
+        });
+        const headers = ["Case", "Target/s", "Achieved/s", "p50 (ms)", "p99 (ms)", "p99.9 (ms)", "Service p99 (ms)", "Max in flight"];
+        console.log(formatTable(headers, rows));
+        if (behind) console.log("! achieved rate below 95% of the target: the library can't sustain it\n");
+    }
+
     // Performance comparison summary
     console.log("\nPerformance Comparison (Ops/sec):");
-    const grouped = groupBy(results, (r) => r.operation);
-    
-    // Custom sort order
-    const sortOrder = ["Bun SQLite", "redis", "Bun Redis"];
-    
-    const libraries = [...new Set(results.map(r => r.library))].sort((a, b) => {
-        // Known libraries first in specific order
-        const indexA = sortOrder.indexOf(a);
-        const indexB = sortOrder.indexOf(b);
-        
-        if (indexA !== -1 && indexB !== -1) return indexA - indexB;
-        if (indexA !== -1) return -1;
-        if (indexB !== -1) return 1;
-
-        // memcached last
-        if (a === "memcached") return 1;
-        if (b === "memcached") return -1;
-
-        // Alphabetical for others
-        return a.localeCompare(b);
-    });
-
-    // Prepare table data and calculate column widths
+    const libraries = orderLibraries(results, options.libraries);
+    const matrix = relativeMatrix(results, options.baseline, libraries);
     const headers = ["Operation", ...libraries];
-    const widths: Record<string, number> = {};
-    headers.forEach(h => widths[h] = h.length);
-
-    const rows = Object.entries(grouped).map(([operation, ops]) => {
-        const rowData: any = { Operation: { text: operation, isFastest: false } };
-        
-        const sorted = [...ops].sort((a, b) => b.opsPerSecond - a.opsPerSecond);
-        const fastestLibrary = sorted[0]?.library;
 
-        libraries.forEach(lib => {
-            const result = ops.find(o => o.library === lib);
+    let hasTies = false;
+    const grouped = groupBy(results, caseLabel);
+    const opsRows = matrix.map((c) => {
+        const cases = grouped[c.operation]!;
+        const fastest = cases.find((r) => r.library === c.fastest)!;
+        const row: Record<string, TableCell> = { Operation: { text: c.operation } };
+        for (const lib of libraries) {
+            const result = cases.find((r) => r.library === lib);
             let text = result ? result.opsPerSecond.toFixed(0) : "-";
-            
-            const isFastest = result?.library === fastestLibrary;
-            if (isFastest && sorted.length > 1) {
-                const slowest = sorted[sorted.length - 1];
-                const multiplier = result.opsPerSecond / slowest.opsPerSecond;
-                text = `(${multiplier.toFixed(1)}x) ${text}`;
+            // No winner is declared when the runner-up is within the fastest's CI
+            if (result && result !== fastest && ciOverlap(result, fastest)) {
+                text = `≈ ${text}`;
+                hasTies = true;
             }
+            row[lib] = { text, bold: c.conclusive && result === fastest };
+        }
+        return row;
+    });
+    console.log(formatTable(headers, opsRows));
+    if (hasTies) {
+        console.log("≈ 95% confidence interval overlaps the fastest library; difference is within noise\n");
+    }
 
-            rowData[lib] = { 
-                text, 
-                isFastest 
-            };
-            
-            if (text.length > (widths[lib] || 0)) {
-                widths[lib] = text.length;
+    if (libraries.length > 1) {
+        const baseline = options.baseline && libraries.includes(options.baseline) ? options.baseline : libraries[0]!;
+        console.log(`Relative to ${baseline} (× its ops/sec):`);
+
+        let hasNoise = false;
+        const relativeRows = matrix.map((c) => {
+            // Cases without the baseline library are compared with their first library
+            const operation = c.baseline === baseline ? c.operation : `${c.operation} (vs ${c.baseline})`;
+            const row: Record<string, TableCell> = { Operation: { text: operation } };
+            for (const lib of libraries) {
+                const result = c.libraries.find((r) => r.library === lib);
+                let text = result ? `${result.speedup.toFixed(2)}x` : "-";
+                if (result && lib !== c.baseline && !result.significant) {
+                    text = `≈ ${text}`;
+                    hasNoise = true;
+                }
+                row[lib] = { text, bold: c.conclusive && lib === c.fastest };
             }
+            return row;
         });
-        
-        if (operation.length > widths["Operation"]) {
-            widths["Operation"] = operation.length;
+        console.log(formatTable(headers, relativeRows));
+        if (hasNoise) {
+            console.log("≈ 95% confidence interval overlaps the baseline library; difference is within noise\n");
         }
-        
-        return rowData;
-    });
+    }
 
-    // Add padding to widths
-    Object.keys(widths).forEach(k => widths[k] += 3);
-
-    // Print Table
-    let output = "";
-    
-    // Header
-    output += headers.map((h, i) => {
-        return i === 0 ? h.padEnd(widths[h]) : h.padStart(widths[h]);
-    }).join("") + "\n";
-    
-    // Separator
-    output += headers.map(h => "-".repeat(widths[h] - 1).padEnd(widths[h])).join("") + "\n";
-
-    // Data Rows
-    rows.forEach(row => {
+    printConcurrencyCurves(results.filter((r) => r.sweep), libraries);
+}
+
+/**
+ * Helper: Renders rows as a text table, first column left-aligned, the rest right-aligned,
+ * bold cells in ANSI bold
+ */
+function formatTable(headers: string[], rows: Record<string, TableCell>[]): string {
+    const widths = headers.map(
+        (h) => Math.max(h.length, ...rows.map((row) => row[h]?.text.length ?? 0)) + 3
+    );
+
+    let output = headers.map((h, i) => (i === 0 ? h.padEnd(widths[i]!) : h.padStart(widths[i]!))).join("") + "\n";
+    output += widths.map((w) => "-".repeat(w - 1).padEnd(w)).join("") + "\n";
+
+    for (const row of rows) {
         output += headers.map((h, i) => {
-            const cell = row[h];
-            if (i === 0) {
-                // Operation column: Left Aligned
-                return cell.text.padEnd(widths[h]);
-            } else {
-                // Data columns: Right Aligned
-                const padding = " ".repeat(widths[h] - cell.text.length);
-                const content = cell.isFastest ? `\x1b[1m${cell.text}\x1b[0m` : cell.text;
-                return padding + content;
-            }
+            const cell = row[h] ?? { text: "-" };
+            if (i === 0) return cell.text.padEnd(widths[i]!);
+            const padding = " ".repeat(widths[i]! - cell.text.length);
+            return padding + (cell.bold ? `\x1b[1m${cell.text}\x1b[0m` : cell.text);
         }).join("") + "\n";
-    });
+    }
+    return output;
+}
+
+/**
+ * Prints throughput and p99 latency per concurrency level for each swept operation
+ */
+function printConcurrencyCurves(results: BenchmarkResult[], libraries: string[]) {
+    if (results.length === 0) return;
+
+    for (const [operation, ops] of Object.entries(groupBy(results, (r) => r.operation))) {
+        console.log(`\nConcurrency Curve - ${operation} (Ops/sec | p99 ms):`);
 
-    console.log(output);
+        const levels = [...new Set(ops.map((r) => r.concurrency!))].sort((a, b) => a - b);
+        const libs = libraries.filter((lib) => ops.some((r) => r.library === lib));
+
+        console.table(
+            levels.map((level) => {
+                const row: Record<string, string | number> = { Concurrency: level };
+                for (const lib of libs) {
+                    const r = ops.find((o) => o.library === lib && o.concurrency === level);
+                    row[lib] = r ? `${r.opsPerSecond.toFixed(0)} | ${r.latency.p99.toFixed(3)}` : "-";
+                }
+                return row;
+            })
+        );
+    }
 }
 
 /**
- * Saves results to JSON file
+ * Saves results to JSON file; returns its path
  */
 export async function saveResults(
     results: BenchmarkResult[],
-    filename: string
-) {
-    const resultsDir = path.join(process.cwd(), "results");
+    filename: string,
+    options: {
+        resultsDir?: string;
+        environment?: Environment;
+        workload?: WorkloadSpec;
+        baseline?: string;
+        skipped?: SkippedLibrary[];
+        failed?: FailedCase[];
+    } = {}
+): Promise<string> {
+    const data: SavedRun = {
+        timestamp: new Date().toISOString(),
+        results,
+        summary: generateSummary(results, options.baseline),
+        environment: options.environment,
+        workload: options.workload,
+        skipped: options.skipped?.length ? options.skipped : undefined,
+        failed: options.failed?.length ? options.failed : undefined,
+    };
+
+    const filepath = await writeResultsFile(filename, "json", JSON.stringify(data, null, 2), options.resultsDir);
+    console.log(`\n✓ Results saved: ${filepath}`);
+    return filepath;
+}
 
+/**
+ * Writes `<filename>-<timestamp>.<ext>` into the results directory; returns its path
+ */
+export async function writeResultsFile(
+    filename: string,
+    ext: string,
+    content: string,
+    resultsDir = path.join(process.cwd(), "results")
+): Promise<string> {
     if (!existsSync(resultsDir)) {
         await mkdir(resultsDir, { recursive: true });
     }
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const filepath = path.join(resultsDir, `${filename}-${timestamp}.json`);
+    const filepath = path.join(resultsDir, `${filename}-${timestamp}.${ext}`);
 
-    const data = {
-        timestamp: new Date().toISOString(),
-        results,
-        summary: generateSummary(results),
-    };
-
-    await writeFile(filepath, JSON.stringify(data, null, 2));
-    console.log(`\n✓ Results saved: ${filepath}`);
+    await writeFile(filepath, content);
+    return filepath;
 }
 
 /**
- * Generates summary statistics
+ * Generates summary statistics; speedups are relative to the baseline library
  */
-function generateSummary(results: BenchmarkResult[]) {
-    const grouped = groupBy(results, (r) => r.operation);
+export function generateSummary(results: BenchmarkResult[], baseline?: string) {
     const summary: Record<string, any> = {};
 
-    for (const [operation, ops] of Object.entries(grouped)) {
-        const sorted = ops.sort((a, b) => b.opsPerSecond - a.opsPerSecond);
-        const fastest = sorted[0];
-        const slowest = sorted[sorted.length - 1];
-        const second = sorted[1];
-
-        if (fastest && slowest) {
-            summary[operation] = {
-                fastest: fastest.library,
-                fastestOps: fastest.opsPerSecond,
-                slowest: slowest.library,
-                slowestOps: slowest.opsPerSecond,
-                speedupMultiplier:
-                    sorted.length > 1 && second
-                        ? fastest.opsPerSecond / second.opsPerSecond
-                        : 1,
-            };
-        }
+    for (const c of relativeMatrix(results, baseline)) {
+        const sorted = [...c.libraries].sort((a, b) => b.opsPerSecond - a.opsPerSecond);
+        const fastest = sorted[0]!;
+        const slowest = sorted[sorted.length - 1]!;
+        const reference = c.libraries.find((r) => r.library === c.baseline)!;
+
+        summary[c.operation] = {
+            significant: c.conclusive,
+            fastest: fastest.library,
+            fastestOps: fastest.opsPerSecond,
+            slowest: slowest.library,
+            slowestOps: slowest.opsPerSecond,
+            baseline: c.baseline,
+            baselineOps: reference.opsPerSecond,
+            speedupMultiplier: fastest.speedup,
+            relative: Object.fromEntries(c.libraries.map((r) => [r.library, r.speedup])),
+        };
     }
 
     return summary;
 }
 
 /**
- * Helper: Groups array by key function
+ * Throughput of a result as a multiple of the baseline's; > 1 is faster than the baseline
+ */
+export function speedup(result: BenchmarkResult, baseline: BenchmarkResult): number {
+    return result.opsPerSecond / baseline.opsPerSecond;
+}
+
+/**
+ * Compares every library of each case with the baseline library (the first library
+ * when none is given, or when a case lacks it)
+ */
+export function relativeMatrix(
+    results: BenchmarkResult[],
+    baseline?: string,
+    libraries = orderLibraries(results)
+): RelativeCase[] {
+    return Object.entries(groupBy(results, caseLabel)).map(([operation, cases]) => {
+        const ordered = [...cases].sort((a, b) => libraries.indexOf(a.library) - libraries.indexOf(b.library));
+        const reference = ordered.find((r) => r.library === baseline) ?? ordered[0]!;
+        const sorted = [...cases].sort((a, b) => b.opsPerSecond - a.opsPerSecond);
+        const fastest = sorted[0]!;
+
+        return {
+            operation,
+            baseline: reference.library,
+            fastest: fastest.library,
+            conclusive: sorted.length > 1 && !ciOverlap(fastest, sorted[1]!),
+            libraries: ordered.map((r) => ({
+                library: r.library,
+                opsPerSecond: r.opsPerSecond,
+                speedup: speedup(r, reference),
+                significant: r === reference || !ciOverlap(r, reference),
+            })),
+        };
+    });
+}
+
+/**
+ * Libraries of the results, the preferred ones (in their order) first, then the rest as they appear
  */
-function groupBy<T>(
+export function orderLibraries(results: BenchmarkResult[], preferred: string[] = []): string[] {
+    const present = [...new Set(results.map((r) => r.library))];
+    return [...preferred.filter((lib) => present.includes(lib)), ...present.filter((lib) => !preferred.includes(lib))];
+}
+
+/**
+ * Operation name, suffixed with the concurrency level and worker count when set
+ */
+export function caseLabel(result: BenchmarkResult): string {
+    let label = result.operation;
+    if (result.openLoop) label += ` @${result.openLoop.targetRate}/s`;
+    else if (result.concurrency) label += ` @${result.concurrency}`;
+    if (result.workers) label += ` ×${result.workers} workers`;
+    return label;
+}
+
+/**
+ * Checks whether two multi-sample results have overlapping 95% CIs
+ */
+export function ciOverlap(a: BenchmarkResult, b: BenchmarkResult): boolean {
+    if (!a.samples || !b.samples) return false;
+    return intervalsOverlap(a.samples.ci95, b.samples.ci95);
+}
+
+/**
+ * Groups array by key function, keeping first-seen key order
+ */
+export function groupBy<T>(
     array: T[],
     keyFn: (item: T) => string
 ): Record<string, T[]> {
@@ -241,7 +1368,14 @@ function groupBy<T>(
 }
 
 /**
- * Helper: Wait for connection
+ * Helper: Checks for a thenable return value
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown> | undefined)?.then === "function";
+}
+
+/**
+ * Retries testFn until it returns true; false once all attempts failed
  */
 export async function waitForConnection(
     testFn: () => Promise<boolean>,
@@ -256,7 +1390,9 @@ export async function waitForConnection(
         } catch (error) {
             // Continue to retry
         }
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (i < maxRetries - 1) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
     }
     return false;
 }
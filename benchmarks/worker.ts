@@ -0,0 +1,58 @@
+import { setConfig } from "./config";
+import { findSuite } from "./registry";
+import { runCase } from "./suite";
+import { errorOutcomes } from "./utils";
+import type { WorkerRequest, WorkerResponse } from "./workers";
+
+declare var self: Worker;
+
+let release: (() => void) | null = null;
+const go = new Promise<void>((resolve) => {
+    release = resolve;
+});
+
+function send(message: WorkerResponse) {
+    postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const message = event.data;
+
+    if (message.type === "go") {
+        release?.();
+        return;
+    }
+
+    try {
+        setConfig(message.config);
+        const { suite: suiteName, library, operation } = message.target;
+        const suite = findSuite(suiteName);
+        const adapter = suite.adapters.find((a) => a.library === library);
+        if (!adapter) {
+            throw new Error(`Suite "${suiteName}" has no library "${library}"`);
+        }
+
+        // Report ready once warmed up, then wait until every worker is ready
+        const result = await runCase(
+            suite,
+            adapter,
+            operation,
+            {
+                ...message.options,
+                ready: () => {
+                    send({ type: "ready" });
+                    return go;
+                },
+            },
+            message.index
+        );
+
+        send({ type: "done", result });
+    } catch (error) {
+        send({
+            type: "error",
+            message: error instanceof Error ? error.message : String(error),
+            outcomes: errorOutcomes(error),
+        });
+    }
+};
@@ -0,0 +1,83 @@
+import { getConfig, type BenchConfig } from "./config";
+import { startResourceCapture } from "./resources";
+import { mergeResults, withOutcomes, type BenchmarkOptions, type BenchmarkResult, type CallOutcomes } from "./utils";
+
+/**
+ * Registered benchmark case a worker looks up and runs
+ */
+export interface WorkerTarget {
+    suite: string;
+    library: string;
+    operation: string;
+}
+
+export type WorkerRequest =
+    | { type: "run"; target: WorkerTarget; index: number; options: Partial<BenchmarkOptions>; config: BenchConfig }
+    | { type: "go" };
+
+export type WorkerResponse =
+    | { type: "ready" }
+    | { type: "done"; result: Omit<BenchmarkResult, "operation" | "library"> }
+    // outcomes: failed calls of the sample that stopped the worker, when it got that far
+    | { type: "error"; message: string; outcomes?: CallOutcomes };
+
+const WORKER_URL = new URL("./worker.ts", import.meta.url).href;
+
+/**
+ * Fans a benchmark case out across Bun Workers and merges their results.
+ * Workers set up and warm up independently, then start measuring together.
+ */
+export async function benchmarkInWorkers(
+    name: string,
+    target: WorkerTarget,
+    options: Partial<BenchmarkOptions>,
+    workers: number
+): Promise<Omit<BenchmarkResult, "operation" | "library">> {
+    const pool = Array.from({ length: workers }, () => new Worker(WORKER_URL));
+    let stopCapture: ReturnType<typeof startResourceCapture> | null = null;
+    let readyCount = 0;
+    // Workers don't share module state, so each gets the parent's resolved config
+    const config = getConfig();
+
+    try {
+        const results = await Promise.all(
+            pool.map(
+                (worker, index) =>
+                    new Promise<Omit<BenchmarkResult, "operation" | "library">>((resolve, reject) => {
+                        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+                            const message = event.data;
+
+                            if (message.type === "ready") {
+                                readyCount++;
+                                if (readyCount === workers) {
+                                    stopCapture = startResourceCapture();
+                                    for (const w of pool) w.postMessage({ type: "go" } satisfies WorkerRequest);
+                                }
+                            } else if (message.type === "done") {
+                                resolve(message.result);
+                            } else {
+                                const error = new Error(`${name} worker ${index + 1}/${workers}: ${message.message}`);
+                                reject(message.outcomes ? withOutcomes(error, message.outcomes) : error);
+                            }
+                        };
+                        worker.onerror = (event) => {
+                            reject(new Error(`${name} worker ${index + 1}/${workers}: ${event.message}`));
+                        };
+
+                        // An open-loop rate is the target of the whole case, shared out evenly
+                        const share = options.rate !== undefined ? { ...options, rate: options.rate / workers } : options;
+                        worker.postMessage({ type: "run", target, index, options: share, config } satisfies WorkerRequest);
+                    })
+            )
+        );
+
+        // Workers are threads of one process, so only the parent sees the combined cost
+        const capture = stopCapture as ReturnType<typeof startResourceCapture> | null;
+        const iterations = results.reduce((sum, r) => sum + r.iterations, 0);
+        const resources = capture ? capture(iterations) : results[0]!.resources;
+
+        return mergeResults(results, resources);
+    } finally {
+        for (const worker of pool) worker.terminate();
+    }
+}
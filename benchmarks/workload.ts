@@ -0,0 +1,218 @@
+export type Distribution = "uniform" | "zipfian" | "hotspot" | "latest";
+
+/**
+ * Shape of the data an operation works on
+ */
+export interface WorkloadSpec {
+    // Keys (or seeded rows) that reads, updates and deletes pick from
+    keyspace: number;
+    // How often each key is picked: evenly, zipfian (key 0 hottest), a hot subset,
+    // or zipfian over recency (the most recently inserted keys hottest)
+    distribution: Distribution;
+    // Skew of zipfian and latest, in (0, 1); YCSB uses 0.99
+    zipfianTheta: number;
+    // hotspot: this fraction of the keys receives hotspotOps of the accesses
+    hotspotKeys: number;
+    hotspotOps: number;
+    // Bytes per value: fixed, or uniform between min and max
+    valueSize: number | { min: number; max: number };
+    // Payload columns per SQL row, each holding one value (0 = id, name and value only)
+    rowWidth: number;
+}
+
+/**
+ * Seeded source of the keys, values and ids an operation uses. Every library of a
+ * case gets a generator for the same stream, so they all see the same sequence.
+ */
+export interface Workload {
+    readonly seed: number;
+    readonly spec: WorkloadSpec;
+    // Uniform in [0, 1)
+    random(): number;
+    // Uniform integer in [0, max)
+    int(max: number): number;
+    // Existing key index picked by the distribution
+    key(): number;
+    // Fresh key index past the keyspace, for inserts (moves the "latest" window)
+    newKey(): number;
+    // Payload of valueSize bytes
+    value(): string;
+    // rowWidth payloads for the SQL payload columns
+    row(): string[];
+    // Rewinds to the start of the sequence (done right before the measured samples)
+    reset(): void;
+}
+
+// Used when neither the config nor the command line sets a seed
+export const DEFAULT_SEED = 1;
+
+export const DEFAULT_WORKLOAD: WorkloadSpec = {
+    keyspace: 1000,
+    distribution: "uniform",
+    zipfianTheta: 0.99,
+    hotspotKeys: 0.2,
+    hotspotOps: 0.8,
+    valueSize: 16,
+    rowWidth: 0,
+};
+
+export const DISTRIBUTIONS: Distribution[] = ["uniform", "zipfian", "hotspot", "latest"];
+export const MIN_VALUE_SIZE = 16;
+export const MAX_VALUE_SIZE = 1024 * 1024;
+
+// Payloads are slices of one random string, so generating them costs next to nothing
+const PAYLOAD_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Creates the generator of one stream (e.g. "redis/Cache GET"); the same seed and stream
+ * always produce the same sequence
+ */
+export function createWorkload(seed: number, stream: string, spec: WorkloadSpec = DEFAULT_WORKLOAD): Workload {
+    const initial = (seed ^ hashString(stream)) >>> 0;
+    let state = initial;
+    let inserted = 0;
+
+    // mulberry32: tiny, fast and good enough for workload generation
+    const random = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    const int = (max: number) => Math.floor(random() * max);
+    const zipfian = createZipfian(spec.zipfianTheta, random);
+    const hotCount = Math.max(1, Math.floor(spec.keyspace * spec.hotspotKeys));
+    const { min, max } = typeof spec.valueSize === "number" ? { min: spec.valueSize, max: spec.valueSize } : spec.valueSize;
+    // Built on first use from its own generator, so the pool doesn't shift the key sequence
+    let pool: string | null = null;
+
+    const key = (): number => {
+        switch (spec.distribution) {
+            case "uniform":
+                return int(spec.keyspace);
+            case "zipfian":
+                return zipfian.sample(spec.keyspace);
+            case "hotspot":
+                if (hotCount >= spec.keyspace) return int(spec.keyspace);
+                return random() < spec.hotspotOps
+                    ? int(hotCount)
+                    : hotCount + int(spec.keyspace - hotCount);
+            case "latest": {
+                const newest = spec.keyspace + inserted - 1;
+                return newest - zipfian.sample(spec.keyspace + inserted);
+            }
+        }
+    };
+
+    const value = (): string => {
+        pool ??= payloadPool(Math.max(max * 2, 65_536), (seed ^ 0x9e3779b9) >>> 0);
+        const size = min === max ? min : min + int(max - min + 1);
+        const offset = int(pool.length - size + 1);
+        return pool.slice(offset, offset + size);
+    };
+
+    return {
+        seed,
+        spec,
+        random,
+        int,
+        key,
+        newKey: () => spec.keyspace + inserted++,
+        value,
+        row: () => Array.from({ length: spec.rowWidth }, value),
+        reset() {
+            state = initial;
+            inserted = 0;
+            // Keeps the zeta computation out of the measured samples
+            if (spec.distribution === "zipfian" || spec.distribution === "latest") zipfian.prepare(spec.keyspace);
+        },
+    };
+}
+
+/**
+ * One-line summary of a workload, e.g. "1,000 keys, zipfian (θ 0.99), 16 B values"
+ */
+export function describeWorkload(spec: WorkloadSpec): string {
+    const access =
+        spec.distribution === "zipfian" || spec.distribution === "latest"
+            ? `${spec.distribution} (θ ${spec.zipfianTheta})`
+            : spec.distribution === "hotspot"
+              ? `hotspot (${spec.hotspotOps * 100}% of accesses to ${spec.hotspotKeys * 100}% of keys)`
+              : spec.distribution;
+    const size =
+        typeof spec.valueSize === "number" ? `${spec.valueSize} B` : `${spec.valueSize.min}-${spec.valueSize.max} B`;
+    const row = spec.rowWidth > 0 ? `, ${spec.rowWidth} payload columns` : "";
+    return `${spec.keyspace.toLocaleString("en-US")} keys, ${access}, ${size} values${row}`;
+}
+
+/**
+ * SQL payload column names of a workload, e.g. ["payload_1", "payload_2"]
+ */
+export function payloadColumns(spec: WorkloadSpec): string[] {
+    return Array.from({ length: spec.rowWidth }, (_, i) => `payload_${i + 1}`);
+}
+
+/**
+ * Helper: YCSB's zipfian generator (Gray et al., "Quickly Generating Billion-Record
+ * Synthetic Databases"). sample(n) returns ranks in [0, n), 0 the most popular.
+ * zeta(n) is extended as n grows and summed from scratch when it shrinks, so the
+ * same n always yields the same value.
+ */
+function createZipfian(theta: number, random: () => number) {
+    const zeta2 = 1 + Math.pow(0.5, theta);
+    const alpha = 1 / (1 - theta);
+    let zetaN = 0;
+    let counted = 0;
+
+    const prepare = (n: number) => {
+        if (n < counted) {
+            zetaN = 0;
+            counted = 0;
+        }
+        for (; counted < n; counted++) {
+            zetaN += 1 / Math.pow(counted + 1, theta);
+        }
+    };
+
+    const sample = (n: number): number => {
+        prepare(n);
+        const eta = (1 - Math.pow(2 / n, 1 - theta)) / (1 - zeta2 / zetaN);
+        const u = random();
+        const uz = u * zetaN;
+        if (uz < 1) return 0;
+        if (uz < zeta2) return Math.min(1, n - 1);
+        return Math.min(n - 1, Math.floor(n * Math.pow(eta * u - eta + 1, alpha)));
+    };
+
+    return { prepare, sample };
+}
+
+/**
+ * Helper: Random printable string to slice payloads from
+ */
+function payloadPool(length: number, seed: number): string {
+    const { int } = createWorkload(seed, "payload");
+    const chunks: string[] = [];
+    for (let i = 0; i < length; i += 1024) {
+        let chunk = "";
+        for (let j = 0; j < Math.min(1024, length - i); j++) {
+            chunk += PAYLOAD_ALPHABET[int(PAYLOAD_ALPHABET.length)];
+        }
+        chunks.push(chunk);
+    }
+    return chunks.join("");
+}
+
+/**
+ * Helper: 32-bit FNV-1a hash
+ */
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
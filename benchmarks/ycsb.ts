@@ -0,0 +1,51 @@
+import bunRedis from "./adapters/ycsb/bun-redis";
+import bunSqlite from "./adapters/ycsb/bun-sqlite";
+import mariadb from "./adapters/ycsb/mariadb";
+import memcached from "./adapters/ycsb/memcached";
+import redis from "./adapters/ycsb/redis";
+import { YCSB_WORKLOADS } from "./kv";
+import { defineSuite, runSuite } from "./suite";
+
+// Wall time per case (ms); iteration counts are calibrated automatically
+const DURATION = 5_000;
+const SAMPLES = 5;
+
+export const ycsbSuite = defineSuite({
+    name: "ycsb",
+    title: "YCSB Benchmark Results",
+    report: {
+        heading: "🧮 YCSB Workloads",
+        description:
+            "The YCSB core workloads over one key-value interface, each call drawn from the workload's operation mix: " +
+            YCSB_WORKLOADS.map((w) => `**${w.name}** (${w.description}, ${w.distribution})`).join(", ") +
+            ". memcached has no ordered keys and skips E.",
+    },
+    operations: YCSB_WORKLOADS.map((w) => w.name),
+    adapters: [bunRedis, redis, memcached, bunSqlite, mariadb],
+    options: { duration: DURATION, samples: SAMPLES },
+    // Contention between reads and writes shows with many calls in flight (bun:sqlite is synchronous)
+    sweep: { operations: ["A: update heavy"], libraries: ["Bun Redis", "redis", "memcached", "mariadb"] },
+    troubleshooting: [
+        "Make sure Redis server is running on localhost:6379 (start with: redis-server)",
+        "Make sure Memcached server is running on localhost:11211 (start with: memcached)",
+        "Make sure MariaDB/MySQL server is running",
+    ],
+});
+
+export async function runYcsbBenchmarks() {
+    console.log("\n🚀 Starting YCSB Benchmark...\n");
+    return runSuite(ycsbSuite);
+}
+
+// If run directly
+if (import.meta.main) {
+    runYcsbBenchmarks()
+        .then(() => {
+            console.log("\n✅ YCSB benchmark completed!");
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error("❌ Error:", error);
+            process.exit(1);
+        });
+}